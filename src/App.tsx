@@ -5,17 +5,21 @@ import { CreateRoom } from './components/CreateRoom';
 import { JoinRoom } from './components/JoinRoom';
 import { AudioBubble } from './components/AudioBubble';
 import { DisplayNameModal } from './components/DisplayNameModal';
+import { WaitingRoom } from './components/WaitingRoom';
+import { DeviceCheckLobby } from './components/DeviceCheckLobby';
 import { Toaster } from './components/ui/sonner';
 import { signaling } from './webrtc/signaling';
+import { RoomAccessError } from './webrtc/transports';
 import { DebugHelper } from './components/DebugHelper';
 import { toast } from 'sonner';
 
-type AppState = 'home' | 'about' | 'create' | 'join' | 'display-name' | 'bubble';
+type AppState = 'home' | 'about' | 'create' | 'join' | 'display-name' | 'lobby' | 'waiting' | 'bubble';
 
 export default function App() {
   const [currentState, setCurrentState] = useState<AppState>('home');
   const [currentRoom, setCurrentRoom] = useState<any>(null);
   const [pendingRoomData, setPendingRoomData] = useState<any>(null);
+  const [pinRoomId, setPinRoomId] = useState<string | null>(null);
 
   // Handle URL parameters for direct room joining
   useEffect(() => {
@@ -25,13 +29,14 @@ export default function App() {
     if (roomParam) {
       // Try to join the room directly from URL
       signaling.joinRoom(roomParam, 'Participant')
-        .then(roomData => {
+        .then(({ room: roomData, admission }) => {
           const roomDataForUI = {
             id: roomData.id,
             name: roomData.name,
             host: false,
             settings: roomData.settings,
-            url: roomData.url
+            url: roomData.url,
+            awaitingAdmission: admission === 'pending'
           };
           
           // Navigate to display name page for URL-based joins
@@ -41,6 +46,24 @@ export default function App() {
         })
         .catch(error => {
           console.error('Failed to join room from URL:', error);
+          if (error instanceof RoomAccessError) {
+            switch (error.reason) {
+              // Protected rooms ask for the PIN on the join page
+              case 'pin-required':
+              case 'incorrect-pin':
+                setPinRoomId(roomParam.toUpperCase());
+                break;
+              case 'locked':
+                toast.error(`Bubble ${roomParam.toUpperCase()} is locked. Ask the host to unlock it.`);
+                break;
+              case 'denied':
+                toast.error('The host declined your request to join.');
+                break;
+              case 'removed':
+                toast.error('The host removed you from this bubble.');
+                break;
+            }
+          }
           // Room not found, redirect to join page with the room code
           setCurrentState('join');
         });
@@ -66,6 +89,7 @@ export default function App() {
   };
 
   const handleRoomJoined = (roomData: any) => {
+    setPinRoomId(null);
     setPendingRoomData(roomData);
     setCurrentState('display-name');
   };
@@ -73,6 +97,7 @@ export default function App() {
   const handleBackToHome = () => {
     setCurrentState('home');
     setCurrentRoom(null);
+    setPinRoomId(null);
   };
 
   const handleLeaveRoom = () => {
@@ -89,18 +114,45 @@ export default function App() {
       };
       
       setCurrentRoom(roomDataWithDisplayName);
-      setCurrentState('bubble');
-      toast.success(`Joined "${pendingRoomData.name}" as ${displayName}!`);
+      // Check the microphone and speakers before going in
+      setCurrentState('lobby');
     }
     
     setPendingRoomData(null);
   };
 
+  const handleLobbyJoin = async (listenOnly: boolean) => {
+    setCurrentRoom({ ...currentRoom, listenOnly });
+
+    if (currentRoom.awaitingAdmission) {
+      // The host sees this name in the waiting room queue
+      await signaling.updateAdmissionName(currentRoom.displayName);
+      setCurrentState('waiting');
+    } else {
+      setCurrentState('bubble');
+      toast.success(`Joined "${currentRoom.name}" as ${currentRoom.displayName}!`);
+    }
+  };
+
+  const handleLobbyCancel = () => {
+    // We already joined (or asked to), so leave instead of lingering as a participant
+    signaling.leaveRoom();
+    setCurrentRoom(null);
+    setCurrentState('home');
+  };
+
   const handleDisplayNameCancel = () => {
+    // The room was joined before asking for a name, so leave it again
+    signaling.leaveRoom();
     setPendingRoomData(null);
     setCurrentState('home');
   };
 
+  const handleAdmitted = () => {
+    setCurrentRoom({ ...currentRoom, awaitingAdmission: false });
+    setCurrentState('bubble');
+  };
+
   // Get page title for screen readers
   const getPageInfo = () => {
     switch (currentState) {
@@ -114,6 +166,10 @@ export default function App() {
         return { title: 'BubbledIn - Join Room' };
       case 'display-name':
         return { title: 'BubbledIn - Enter Display Name' };
+      case 'lobby':
+        return { title: 'BubbledIn - Check Your Audio' };
+      case 'waiting':
+        return { title: 'BubbledIn - Waiting Room' };
       case 'bubble':
         return { title: `BubbledIn - ${currentRoom?.name || 'Room'}` };
       default:
@@ -159,6 +215,7 @@ export default function App() {
           <JoinRoom 
             onBack={handleBackToHome}
             onRoomJoined={handleRoomJoined}
+            pinRoomId={pinRoomId}
           />
         )}
 
@@ -174,6 +231,24 @@ export default function App() {
           </div>
         )}
 
+        {currentState === 'lobby' && currentRoom && (
+          <DeviceCheckLobby
+            roomName={currentRoom.name}
+            displayName={currentRoom.displayName}
+            onJoin={handleLobbyJoin}
+            onCancel={handleLobbyCancel}
+          />
+        )}
+
+        {currentState === 'waiting' && currentRoom && (
+          <WaitingRoom
+            roomName={currentRoom.name}
+            displayName={currentRoom.displayName}
+            onAdmitted={handleAdmitted}
+            onLeave={handleLeaveRoom}
+          />
+        )}
+
         {currentState === 'bubble' && currentRoom && (
           <AudioBubble 
             roomData={currentRoom}
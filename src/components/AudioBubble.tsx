@@ -6,7 +6,29 @@ import { AudioControls } from './AudioControls';
 import { TranscriptionPanel } from './TranscriptionPanel';
 import { StatusAnnouncer, useStatusAnnouncer } from './StatusAnnouncer';
 import { QRCodeDisplay } from './QRCodeDisplay';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from './ui/sheet';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import { ChatPanel } from './ChatPanel';
+import { ParticipantsList } from './ParticipantsList';
+import { RoomMap } from './RoomMap';
+import { DeviceSettings } from './DeviceSettings';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { WifiSignal } from './ui/wifi-signal';
 import { transcriptionService } from '../services/transcriptionService';
+import { chatService, type ChatMessage } from '../services/chatService';
 import { 
   Volume2, 
   VolumeX, 
@@ -19,28 +41,125 @@ import {
   Share2,
   MessageSquare,
   MicOff,
-  MoreVertical
+  MoreVertical,
+  Lock,
+  Unlock,
+  UserX,
+  UserCheck,
+  Clock,
+  Headphones,
+  Presentation,
+  MessageCircle,
+  Hand,
+  SlidersHorizontal,
+  Radio
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { signaling, peerManager, type RoomData, type Participant } from '../webrtc';
+import {
+  signaling,
+  peerManager,
+  pttManager,
+  audioMixer,
+  VoiceActivityDetector,
+  RemoteSpeakingMonitor,
+  deviceManager,
+  microphoneCapture,
+  callStats,
+  type AudioDevices,
+  type SpatialMode,
+  type AudioProfile,
+  type RoomData,
+  type Participant,
+  type AdmissionRequest,
+  type EditableRoomSettings,
+  type RoomAuditEntry,
+  type FloorGrant
+} from '../webrtc';
 import { authService } from '../firebase/auth';
+import { toMillis } from '../webrtc/presence';
+import { getFloorHolder } from '../webrtc/floor';
+import { VAD_CONFIG, FLOOR_CONFIG } from '../webrtc/config';
+import { playBusyTone } from '../webrtc/tones';
+
+const DEFAULT_ROOM_SETTINGS: RoomData['settings'] = { pushToTalk: false, transcription: true };
+
+const SPATIAL_MODE_OPTIONS: { value: SpatialMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'stereo', label: 'Stereo' },
+  { value: 'hrtf', label: '3D (headphones)' }
+];
+
+const AUDIO_PROFILE_OPTIONS: { value: AudioProfile; label: string; description: string }[] = [
+  { value: 'standard', label: 'Standard', description: 'Balanced for conversation' },
+  { value: 'low-bandwidth', label: 'Low bandwidth', description: 'For weak or crowded Wi-Fi' },
+  { value: 'high-fidelity', label: 'High fidelity', description: 'For music and lectures' }
+];
+
+const audioProfileLabel = (profile: AudioProfile = 'standard') =>
+  AUDIO_PROFILE_OPTIONS.find(option => option.value === profile)!.label;
+
+const SETTING_LABELS: Record<keyof EditableRoomSettings, string> = {
+  pushToTalk: 'push to talk',
+  transcription: 'live captions',
+  presenterMode: 'presenter mode',
+  audioProfile: 'audio quality',
+  exclusiveFloor: 'one speaker at a time'
+};
+
+function describeSettingChanges(changes: Partial<EditableRoomSettings>): string {
+  return (Object.keys(changes) as (keyof EditableRoomSettings)[])
+    .map(key => key === 'audioProfile'
+      ? `set ${SETTING_LABELS[key]} to ${audioProfileLabel(changes.audioProfile).toLowerCase()}`
+      : `turned ${SETTING_LABELS[key]} ${changes[key] ? 'on' : 'off'}`)
+    .join(', ');
+}
 
 interface AudioBubbleProps {
-  roomData: RoomData;
+  roomData: RoomData & {
+    // Name picked on the display name page, for participants who joined by link or code
+    displayName?: string;
+    // Chosen in the lobby: join without a microphone
+    listenOnly?: boolean;
+  };
   onLeave: () => void;
 }
 
 export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
   const [isConnected, setIsConnected] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
+  // Room settings as the host last set them; they can change while we are in the room
+  const [roomSettings, setRoomSettings] = useState(roomData.settings || DEFAULT_ROOM_SETTINGS);
   const [isPushToTalk, setIsPushToTalk] = useState(roomData.settings?.pushToTalk || false);
+  const [showRoomSettings, setShowRoomSettings] = useState(false);
+  const [auditLog, setAuditLog] = useState<RoomAuditEntry[]>([]);
   const [isPushToTalkPressed, setIsPushToTalkPressed] = useState(false);
+  const [masterVolume, setMasterVolume] = useState(() => audioMixer.getMasterVolume());
+  const [showMixer, setShowMixer] = useState(false);
+  const [spatialMode, setSpatialMode] = useState<SpatialMode>(() => audioMixer.getSpatialMode());
   const [showTranscription, setShowTranscription] = useState(false);
-  const [activeTab, setActiveTab] = useState<'audio' | 'captions'>('audio');
+  const [activeTab, setActiveTab] = useState<'audio' | 'captions' | 'chat'>('audio');
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [unreadChatCount, setUnreadChatCount] = useState(0);
+  const activeTabRef = useRef(activeTab);
+  activeTabRef.current = activeTab;
+  // Message IDs we have already seen; null until the history has loaded
+  const seenChatIdsRef = useRef<Set<string> | null>(null);
   const [showQRCode, setShowQRCode] = useState(false);
+  const [isLocked, setIsLocked] = useState(!!roomData.locked);
+  const [hostId, setHostId] = useState(signaling.getCurrentRoom()?.hostId ?? roomData.hostId);
+  const [presenterId, setPresenterId] = useState(signaling.getCurrentRoom()?.presenterId ?? roomData.presenterId ?? null);
+  const [coHostId, setCoHostId] = useState(signaling.getCurrentRoom()?.coHostId ?? null);
+  const [raisedHands, setRaisedHands] = useState<string[]>(signaling.getCurrentRoom()?.raisedHands ?? []);
+  const [floor, setFloor] = useState<FloorGrant | null>(signaling.getCurrentRoom()?.floor ?? null);
+  // Whether the floor was granted to us for the current push-to-talk press
+  const [holdsFloor, setHoldsFloor] = useState(false);
+  const [admissionRequests, setAdmissionRequests] = useState<AdmissionRequest[]>([]);
+  const knownAdmissionRequestsRef = useRef<Set<string>>(new Set());
   
   // Web Speech API state for transcription
   const [stream, setStream] = useState<MediaStream | null>(null);
+  // Joined without a microphone, by choice or because access was denied
+  const [isListenOnly, setIsListenOnly] = useState<boolean>(!!roomData.listenOnly);
   const userId = 'user-1';
   
   // WebRTC state for real participants
@@ -54,10 +173,15 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
   // Refs to store unsubscribe functions
   const unsubscribeParticipantsRef = useRef<(() => void) | null>(null);
   const unsubscribeRoomRef = useRef<(() => void) | null>(null);
+  const unsubscribeModerationRef = useRef<(() => void) | null>(null);
   const participantsRef = useRef<Participant[]>([]);
+  // Latest leaveRoom, for listeners registered once in the connection effect
+  const leaveRoomRef = useRef<() => void>(() => {});
+  // Latest caption stream, for the connection effect's cleanup
+  const streamRef = useRef<MediaStream | null>(null);
   
   // Status announcer for accessibility
-  const { message, announce, announceJoin, announceLeave, announceMute, announceConnect } = useStatusAnnouncer();
+  const { message, announce, announceJoin, announceLeave, announceMute, announceConnect, announceSpeaking } = useStatusAnnouncer();
   
   const vibrate = useCallback((pattern: number | number[]) => {
     if ('vibrate' in navigator) {
@@ -76,37 +200,168 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
     }
   }, [participants.length, connectionStatus]);
 
+  // Walkie-talkie mode: one speaker at a time, whoever holds the floor
+  const isFloorControlled = isPushToTalk && !!roomSettings.exclusiveFloor;
+
   // Handle PTT state changes
   useEffect(() => {
     console.log('🎤 PTT Effect - PTT:', isPushToTalk, 'Pressed:', isPushToTalkPressed, 'Muted:', isMuted);
     if (isPushToTalk) {
-      // PTT is enabled, control mic based on press state
-      const shouldBeMuted = !isPushToTalkPressed;
+      // PTT is enabled, control mic based on press state (and the floor, when it is exclusive)
+      const shouldBeMuted = !isPushToTalkPressed || (isFloorControlled && !holdsFloor);
       console.log('🎤 PTT enabled, setting mic muted to:', shouldBeMuted);
-      peerManager.setMuted(shouldBeMuted);
+      microphoneCapture.setMuted(shouldBeMuted);
       
       // Disable Live Captions completely when PTT is enabled
       setIsTranscriptionMuted(true);
     } else {
       // PTT is disabled, restore normal mute state
       console.log('🎤 PTT disabled, restoring mute state to:', isMuted);
-      peerManager.setMuted(isMuted);
+      microphoneCapture.setMuted(isMuted);
       
       // Also restore Live Captions mute state
       setIsTranscriptionMuted(isMuted);
     }
-  }, [isPushToTalk, isPushToTalkPressed, isMuted]);
+  }, [isPushToTalk, isPushToTalkPressed, isMuted, isFloorControlled, holdsFloor]);
+
+  // Holding push to talk claims the floor; the mic opens once it is granted
+  useEffect(() => {
+    if (!isFloorControlled || !isPushToTalkPressed) return;
+
+    let cancelled = false;
+    let granted = false;
+    let holdTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const signalChannelBusy = () => {
+      const holderId = signaling.getCurrentRoom()?.floor?.holderId;
+      const holder = participantsRef.current.find(p => p.id === holderId);
+      playBusyTone().catch(() => {
+        // Vibration and the announcement still tell them
+      });
+      vibrate([100, 50, 100, 50, 100]);
+      announce(holder ? `Channel busy, ${holder.name} is talking` : 'Channel busy');
+    };
+
+    signaling.requestFloor()
+      .then(isGranted => {
+        if (cancelled) {
+          // Let go before the grant arrived
+          if (isGranted) signaling.releaseFloor();
+          return;
+        }
+        if (!isGranted) {
+          signalChannelBusy();
+          return;
+        }
+
+        granted = true;
+        setHoldsFloor(true);
+        // Nobody keeps the channel forever, e.g. with a stuck key
+        holdTimeout = setTimeout(() => {
+          const message = `Floor released after ${FLOOR_CONFIG.maxHoldTime / 1000} seconds`;
+          announce(message);
+          toast.info(message);
+          pttManager.stopPTT();
+          setIsPushToTalkPressed(false);
+        }, FLOOR_CONFIG.maxHoldTime);
+      })
+      .catch(error => {
+        console.error('Failed to request the floor:', error);
+        if (!cancelled) signalChannelBusy();
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(holdTimeout);
+      setHoldsFloor(false);
+      if (granted) signaling.releaseFloor();
+    };
+  }, [isFloorControlled, isPushToTalkPressed]);
+
+  // Latest press handler, for the PTT manager's callbacks registered below
+  const handlePushToTalkPressRef = useRef<(pressed: boolean) => void>(() => {});
+
+  // Push-to-talk keys, gamepad and headset buttons through the shared PTT manager
+  useEffect(() => {
+    if (isPushToTalk) {
+      pttManager.configure({
+        enabled: true,
+        onStart: () => handlePushToTalkPressRef.current(true),
+        onEnd: () => handlePushToTalkPressRef.current(false)
+      });
+    } else {
+      pttManager.setEnabled(false);
+    }
+  }, [isPushToTalk]);
+
+  useEffect(() => {
+    return () => pttManager.cleanup();
+  }, []);
+
+  // Follow push-to-talk changes the host makes while we are in the room
+  const previousPushToTalkRef = useRef(roomSettings.pushToTalk);
+  useEffect(() => {
+    if (previousPushToTalkRef.current === roomSettings.pushToTalk) return;
+    previousPushToTalkRef.current = roomSettings.pushToTalk;
+
+    setIsPushToTalk(roomSettings.pushToTalk);
+    const message = `Push to talk turned ${roomSettings.pushToTalk ? 'on' : 'off'} for this room`;
+    announce(message);
+    toast.info(message);
+  }, [roomSettings.pushToTalk]);
+
+  // Follow live caption changes the host makes while we are in the room
+  const previousTranscriptionRef = useRef(roomSettings.transcription);
+  useEffect(() => {
+    if (previousTranscriptionRef.current === roomSettings.transcription) return;
+    previousTranscriptionRef.current = roomSettings.transcription;
+
+    if (roomSettings.transcription === false) {
+      if (isTranscribing) {
+        transcriptionService.stopTranscription();
+        setIsTranscribing(false);
+      }
+      setActiveTab('audio');
+    }
+    // Turning captions on is picked up by the transcription effect below
+    const message = `Live captions turned ${roomSettings.transcription === false ? 'off' : 'on'} for this room`;
+    announce(message);
+    toast.info(message);
+  }, [roomSettings.transcription]);
+
+  // Follow audio quality changes the host makes while we are in the room
+  const previousAudioProfileRef = useRef(roomSettings.audioProfile);
+  useEffect(() => {
+    if (previousAudioProfileRef.current === roomSettings.audioProfile) return;
+    previousAudioProfileRef.current = roomSettings.audioProfile;
+
+    peerManager.setAudioProfile(roomSettings.audioProfile ?? 'standard');
+    const message = `Audio quality set to ${audioProfileLabel(roomSettings.audioProfile).toLowerCase()} for this room`;
+    announce(message);
+    toast.info(message);
+  }, [roomSettings.audioProfile]);
+
+  // Follow one-speaker-at-a-time changes the host makes while we are in the room
+  const previousExclusiveFloorRef = useRef(!!roomSettings.exclusiveFloor);
+  useEffect(() => {
+    if (previousExclusiveFloorRef.current === !!roomSettings.exclusiveFloor) return;
+    previousExclusiveFloorRef.current = !!roomSettings.exclusiveFloor;
+
+    const message = `One speaker at a time turned ${roomSettings.exclusiveFloor ? 'on' : 'off'} for this room`;
+    announce(message);
+    toast.info(message);
+  }, [roomSettings.exclusiveFloor]);
 
   // Handle PTT toggle on/off
   useEffect(() => {
     if (isPushToTalk) {
       // PTT just enabled, mute mic initially
-      peerManager.setMuted(true);
+      microphoneCapture.setMuted(true);
       // Disable Live Captions completely when PTT is enabled
       setIsTranscriptionMuted(true);
     } else {
       // PTT disabled, restore normal mute state
-      peerManager.setMuted(isMuted);
+      microphoneCapture.setMuted(isMuted);
       // Also restore Live Captions mute state
       setIsTranscriptionMuted(isMuted);
     }
@@ -119,14 +374,14 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
       console.log('🎤 Stopping transcription due to mute state');
       transcriptionService.stopTranscription();
       setIsTranscribing(false);
-    } else if (!isTranscribing && !isTranscriptionMuted && stream && roomData?.settings?.transcription !== false) {
+    } else if (!isTranscribing && !isTranscriptionMuted && stream && roomSettings.transcription !== false) {
       // Start transcription when unmuted and not already transcribing
       console.log('🎤 Starting transcription due to unmute state');
       
       // Get the current user's name from participants list or fallback to displayName
       const currentUserId = authService.getCurrentUserId();
       const currentParticipant = participants.find(p => p.id === currentUserId);
-      const userName = currentParticipant?.name || (roomData as any).displayName || 'You';
+      const userName = currentParticipant?.name || roomData.displayName || 'You';
       
       transcriptionService.startTranscription(roomData.id, userName, stream)
         .then(() => {
@@ -137,14 +392,14 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
           console.warn('⚠️ Failed to start transcription:', error);
         });
     }
-  }, [isTranscriptionMuted, isTranscribing, stream, roomData, participants]);
+  }, [isTranscriptionMuted, isTranscribing, stream, roomData, roomSettings.transcription, participants]);
 
   // Handle participant name changes - restart transcription with new name
   useEffect(() => {
-    if (isTranscribing && stream && !isTranscriptionMuted && roomData?.settings?.transcription !== false) {
+    if (isTranscribing && stream && !isTranscriptionMuted && roomSettings.transcription !== false) {
       const currentUserId = authService.getCurrentUserId();
       const currentParticipant = participants.find(p => p.id === currentUserId);
-      const newUserName = currentParticipant?.name || (roomData as any).displayName || 'You';
+      const newUserName = currentParticipant?.name || roomData.displayName || 'You';
       
       // Check if the name has changed and restart transcription
       if (currentParticipant?.name && currentParticipant.name !== 'You') {
@@ -162,6 +417,30 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
   }, [participants, isTranscribing, stream, isTranscriptionMuted, roomData]);
 
   useEffect(() => {
+    streamRef.current = stream;
+  }, [stream]);
+
+  const releaseRoomSubscriptions = () => {
+    if (unsubscribeParticipantsRef.current) {
+      console.log('📡 Unsubscribing from participants listener');
+      unsubscribeParticipantsRef.current();
+      unsubscribeParticipantsRef.current = null;
+    }
+    if (unsubscribeRoomRef.current) {
+      console.log('📡 Unsubscribing from room listener');
+      unsubscribeRoomRef.current();
+      unsubscribeRoomRef.current = null;
+    }
+    if (unsubscribeModerationRef.current) {
+      unsubscribeModerationRef.current();
+      unsubscribeModerationRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    // Set by the cleanup; steps still awaiting check it before holding anything
+    let cancelled = false;
+
     // Initialize WebRTC connection AND Web Speech API
     const initializeConnection = async () => {
       try {
@@ -192,34 +471,54 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
         }
         console.log('✅ User authenticated:', userId);
         
+        // In presenter mode only the presenter sends audio; listeners never open a microphone
+        const joinedRoom = signaling.getCurrentRoom() ?? roomData;
+        const initialPresenterId = joinedRoom.settings?.presenterMode ? joinedRoom.presenterId ?? null : null;
+        const joinsAsListener = !!initialPresenterId && initialPresenterId !== userId;
+
         // STEP 1: Initialize local media stream for WebRTC
-        console.log('🎤 Step 1: Initializing local media stream...');
-        await peerManager.initializeLocalStream();
+        let joinsListenOnly = !!roomData.listenOnly;
+        if (joinsAsListener) {
+          console.log('📻 Step 1: Joining as a listener, skipping microphone');
+        } else if (joinsListenOnly) {
+          console.log('🎧 Step 1: Joining listen-only, skipping microphone');
+        } else {
+          console.log('🎤 Step 1: Initializing local media stream...');
+          try {
+            await peerManager.initializeLocalStream();
+          } catch (error) {
+            // Still join: connections negotiate receive-only audio without a stream
+            console.warn('⚠️ No microphone, joining listen-only:', error);
+            joinsListenOnly = true;
+            setIsListenOnly(true);
+            announce('Microphone unavailable. You joined listen-only');
+            toast.warning('Microphone unavailable, so you joined listen-only. You can start speaking once it works.');
+          }
+        }
         
         // STEP 2: Set up Web Speech API microphone access and start Live Captions
         const setupTranscriptionMicrophone = async () => {
           try {
             console.log('🎤 Step 2: Setting up transcription microphone...');
-            const mediaStream = await navigator.mediaDevices.getUserMedia({ 
-              audio: {
-                echoCancellation: true,
-                noiseSuppression: true,
-                sampleRate: 44100
-              }
-            });
+            // A clone of the microphone WebRTC already opened, so no second prompt
+            const mediaStream = await microphoneCapture.acquire();
+            if (cancelled) {
+              microphoneCapture.release(mediaStream);
+              return;
+            }
             setStream(mediaStream);
             console.log('✅ Transcription microphone access granted');
             announce('Microphone access granted for Web Speech API transcription');
             
             // Start Live Captions only if transcription is enabled in room settings and not muted
-            if (roomData.settings?.transcription !== false && !isTranscriptionMuted) {
+            if (roomSettings.transcription !== false && !isTranscriptionMuted) {
               try {
                 console.log('🎤 Starting Live Captions by Gemini...');
                 
                 // Get the current user's name from participants list or fallback to displayName
                 const currentUserId = authService.getCurrentUserId();
                 const currentParticipant = participants.find(p => p.id === currentUserId);
-                const userName = currentParticipant?.name || (roomData as any).displayName || 'You';
+                const userName = currentParticipant?.name || roomData.displayName || 'You';
                 
                 await transcriptionService.startTranscription(roomData.id, userName, mediaStream);
                 setIsTranscribing(true);
@@ -229,7 +528,7 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
                 console.warn('⚠️ Failed to start Live Captions:', transcriptionError);
                 // Don't throw error, just log it - the connection should still work
               }
-            } else if (roomData.settings?.transcription === false) {
+            } else if (roomSettings.transcription === false) {
               console.log('🎤 Live Captions disabled for this room');
               announce('Live captions disabled for this room');
             } else {
@@ -241,14 +540,22 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
           }
         };
 
-        setupTranscriptionMicrophone();
+        if (!joinsAsListener && !joinsListenOnly) {
+          setupTranscriptionMicrophone();
+        }
         
         // STEP 3: Initialize room for peer connections
         console.log('🏠 Step 3: Initializing room for peer connections...');
         await peerManager.initializeRoom(roomData.id);
+        peerManager.setPresenter(initialPresenterId);
+        peerManager.setAudioProfile(joinedRoom.settings?.audioProfile ?? 'standard');
         
         // Wait a moment for initialization to complete
         await new Promise(resolve => setTimeout(resolve, 500));
+        if (cancelled) {
+          peerManager.cleanup();
+          return;
+        }
         
         // Mark as connected since we've successfully joined the room
         console.log('✅ Successfully joined room, updating connection status');
@@ -258,16 +565,22 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
         console.log('🟢 Connection status set to connected - user is now in the room');
         
         // Update participant display name if provided
-        if ((roomData as any).displayName) {
+        if (roomData.displayName) {
           try {
-            console.log('📝 Updating participant display name to:', (roomData as any).displayName);
-            await signaling.updateParticipantName(roomData.id, userId, (roomData as any).displayName);
+            console.log('📝 Updating participant display name to:', roomData.displayName);
+            await signaling.updateParticipantName(roomData.id, userId, roomData.displayName);
             console.log('✅ Participant display name updated successfully');
           } catch (error) {
             console.error('Failed to update participant display name:', error);
             // Don't throw error, just log it - the connection should still work
           }
         }
+
+        if (joinsListenOnly) {
+          await signaling.updateParticipantListenOnly(userId, true);
+        }
+        
+        if (cancelled) return;
         
         // Set up peer manager callbacks
         console.log('📞 Step 4: Setting up peer manager callbacks...');
@@ -298,6 +611,19 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
             console.log('👋 Participant left:', participantId);
             announceLeave(`Participant ${participantId}`);
           },
+          onConnectionRecovery: (participantId, event) => {
+            const name = participantsRef.current.find(p => p.id === participantId)?.name || 'participant';
+            console.log('🔁 Connection recovery for', participantId, event);
+            if (event.action === 'ice-restart' || event.action === 'rebuild') {
+              announce(`Reconnecting audio with ${name}`);
+              if (event.attempt === 1) {
+                toast.info(`Reconnecting audio with ${name}...`);
+              }
+            } else if (event.action === 'recovered') {
+              announce(`Audio with ${name} reconnected`);
+              toast.success(`Audio with ${name} reconnected`);
+            }
+          },
           onError: (error) => {
             console.error('❌ WebRTC error:', error);
             toast.error('Connection error occurred');
@@ -381,46 +707,39 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
             onLeave();
           } else {
             console.log('✅ Room update received successfully');
+            setIsLocked(!!room.locked);
+            setRoomSettings(room.settings || DEFAULT_ROOM_SETTINGS);
+            setHostId(room.hostId);
+            setPresenterId(room.presenterId ?? null);
+            setCoHostId(room.coHostId ?? null);
+            setRaisedHands(room.raisedHands || []);
+            setFloor(room.floor ?? null);
           }
         });
 
-        // Cleanup on unmount
-        return () => {
-          console.log('🧹 Component unmounting, cleaning up...');
-          
-          // Unsubscribe from Firebase listeners
-          if (unsubscribeParticipantsRef.current) {
-            console.log('📡 Unsubscribing from participants listener (unmount)');
-            unsubscribeParticipantsRef.current();
-            unsubscribeParticipantsRef.current = null;
-          }
-          if (unsubscribeRoomRef.current) {
-            console.log('📡 Unsubscribing from room listener (unmount)');
-            unsubscribeRoomRef.current();
-            unsubscribeRoomRef.current = null;
-          }
-          
-          // Cleanup WebRTC connections (idempotent)
-          console.log('🔌 Cleaning up WebRTC connections (unmount)');
-          peerManager.cleanup();
-          
-          // Cleanup transcription microphone stream
-          if (stream) {
-            console.log('🎤 Stopping transcription microphone stream (unmount)');
-            stream.getTracks().forEach(track => {
-              console.log('🛑 Stopping track (unmount):', track.kind, track.label);
-              track.stop();
-              track.enabled = false;
-            });
-          }
-          
-          // Cleanup transcription service
-          if (isTranscribing) {
-            console.log('🎤 Stopping Live Captions (unmount)');
-            transcriptionService.stopTranscription();
-            setIsTranscribing(false);
+        // Follow host moderation commands addressed to us
+        unsubscribeModerationRef.current = signaling.onModerationCommands(roomData.id, async (command) => {
+          console.log('🛡️ Moderation command received:', command);
+          if (command.type === 'mute') {
+            setIsMuted(true);
+            setIsTranscriptionMuted(true);
+            microphoneCapture.setMuted(true);
+            const currentUserId = authService.getCurrentUserId();
+            if (currentUserId) {
+              await signaling.updateParticipantMute(currentUserId, true);
+            }
+            announce('The host muted your microphone');
+            toast.info('The host muted your microphone');
+          } else if (command.type === 'call-on') {
+            announce("The host called on you. It's your turn to speak");
+            toast.info("It's your turn to speak");
+            vibrate([200, 100, 200]);
+          } else if (command.type === 'remove') {
+            announce('You were removed from the audio bubble by the host');
+            toast.error('You were removed from the audio bubble by the host');
+            leaveRoomRef.current();
           }
-        };
+        });
       } catch (error) {
         announce('Failed to connect to audio bubble');
         toast.error('Failed to connect to audio bubble');
@@ -429,6 +748,29 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
     };
 
     initializeConnection();
+
+    // Cleanup on unmount
+    return () => {
+      console.log('🧹 Component unmounting, cleaning up...');
+      cancelled = true;
+      
+      // Unsubscribe from Firebase listeners
+      releaseRoomSubscriptions();
+      
+      // Cleanup WebRTC connections (idempotent)
+      console.log('🔌 Cleaning up WebRTC connections (unmount)');
+      peerManager.cleanup();
+      
+      // Cleanup transcription microphone stream
+      if (streamRef.current) {
+        console.log('🎤 Releasing transcription microphone stream (unmount)');
+        microphoneCapture.release(streamRef.current);
+        streamRef.current = null;
+      }
+      
+      // Cleanup transcription service (idempotent)
+      transcriptionService.stopTranscription();
+    };
   }, [roomData.id]); // Only depend on roomData.id, not the functions
 
   const toggleQRCode = () => {
@@ -438,6 +780,15 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
   };
 
   const toggleMute = async () => {
+    if (isListener) {
+      toast.info('Only the presenter can speak in presenter mode');
+      return;
+    }
+    if (isListenOnly) {
+      toast.info('You joined listen-only. Select Start speaking to use your microphone');
+      return;
+    }
+
     // Don't allow manual mute/unmute when PTT is active and pressed
     if (isPushToTalk && isPushToTalkPressed) {
       return;
@@ -450,10 +801,10 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
     setIsTranscriptionMuted(newMutedState);
     
     // Update peer manager
-    peerManager.setMuted(newMutedState);
+    microphoneCapture.setMuted(newMutedState);
     
     // Update signaling service
-    const currentParticipant = participants.find(p => p.id === 'host' || p.isHost);
+    const currentParticipant = participants.find(p => p.id === authService.getCurrentUserId());
     if (currentParticipant) {
       try {
         await signaling.updateParticipantMute(currentParticipant.id, newMutedState);
@@ -467,16 +818,42 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
   };
 
 
+  // Leave listen-only: open the microphone and start sending it
+  const startSpeaking = async () => {
+    try {
+      await peerManager.enableMicrophone();
+      if (!stream) {
+        // Picked up by the transcription effect
+        setStream(await microphoneCapture.acquire());
+      }
+      setIsListenOnly(false);
+
+      const currentUserId = authService.getCurrentUserId();
+      if (currentUserId) {
+        await signaling.updateParticipantListenOnly(currentUserId, false);
+      }
+      announce('Microphone on. You can speak now');
+      toast.success('You can speak now');
+      vibrate(200);
+    } catch (error) {
+      console.error('❌ Failed to open microphone for speaking:', error);
+      announce('Microphone access is needed to speak');
+      toast.error('Microphone access is needed to speak. Allow it in your browser\'s site settings and try again');
+    }
+  };
+
   const handlePushToTalkPress = (pressed: boolean) => {
     console.log('🎤 PTT Press:', pressed, 'PTT Enabled:', isPushToTalk);
     setIsPushToTalkPressed(pressed);
     // When PTT is enabled, directly control microphone based on press state
     if (isPushToTalk) {
-      const shouldBeMuted = !pressed;
+      // With an exclusive floor the mic waits for the grant, see the floor effect
+      const shouldBeMuted = !pressed || (isFloorControlled && !holdsFloor);
       console.log('🎤 Setting mic muted to:', shouldBeMuted);
-      peerManager.setMuted(shouldBeMuted);
+      microphoneCapture.setMuted(shouldBeMuted);
     }
   };
+  handlePushToTalkPressRef.current = handlePushToTalkPress;
 
   const toggleTranscription = () => {
     setShowTranscription(!showTranscription);
@@ -492,16 +869,7 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
       console.log('🧹 Starting comprehensive cleanup...');
       
       // Unsubscribe from Firebase listeners FIRST to prevent new connections
-      if (unsubscribeParticipantsRef.current) {
-        console.log('📡 Unsubscribing from participants listener');
-        unsubscribeParticipantsRef.current();
-        unsubscribeParticipantsRef.current = null;
-      }
-      if (unsubscribeRoomRef.current) {
-        console.log('📡 Unsubscribing from room listener');
-        unsubscribeRoomRef.current();
-        unsubscribeRoomRef.current = null;
-      }
+      releaseRoomSubscriptions();
       
       // Cleanup WebRTC connections (stops all tracks and closes connections)
       console.log('🔌 Cleaning up WebRTC connections');
@@ -509,12 +877,8 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
       
       // Cleanup transcription microphone stream
       if (stream) {
-        console.log('🎤 Stopping transcription microphone stream');
-        stream.getTracks().forEach(track => {
-          console.log('🛑 Stopping track:', track.kind, track.label);
-          track.stop();
-          track.enabled = false;
-        });
+        console.log('🎤 Releasing transcription microphone stream');
+        microphoneCapture.release(stream);
         setStream(null);
       }
       
@@ -554,6 +918,435 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
       console.log('🔄 Page refresh initiated');
     }
   };
+  leaveRoomRef.current = leaveRoom;
+
+  // Host moderation
+  const currentUserId = authService.getCurrentUserId();
+  const isHost = hostId === currentUserId;
+
+  // Presenter broadcast: null while everyone talks
+  const broadcastPresenterId = roomSettings.presenterMode ? presenterId : null;
+  const isListener = !!broadcastPresenterId && broadcastPresenterId !== currentUserId;
+
+  // Rewire audio when presenter mode or the presenter changes
+  const previousBroadcastPresenterIdRef = useRef(broadcastPresenterId);
+  useEffect(() => {
+    if (previousBroadcastPresenterIdRef.current === broadcastPresenterId) return;
+    previousBroadcastPresenterIdRef.current = broadcastPresenterId;
+
+    const rewire = async () => {
+      if (isListener) {
+        // Give the microphone up entirely, captions included
+        peerManager.stopLocalStream();
+        if (isTranscribing) {
+          transcriptionService.stopTranscription();
+          setIsTranscribing(false);
+        }
+        if (stream) microphoneCapture.release(stream);
+        setStream(null);
+      } else {
+        try {
+          if (!peerManager.getLocalStream() && !isListenOnly) {
+            await peerManager.initializeLocalStream();
+          }
+          if (!stream && !isListenOnly) {
+            // Picked up by the transcription effect
+            setStream(await microphoneCapture.acquire());
+          }
+        } catch (error) {
+          console.error('❌ Failed to open microphone for speaking:', error);
+          toast.error('Microphone access is needed to speak');
+        }
+      }
+
+      peerManager.setPresenter(broadcastPresenterId);
+      await peerManager.connectToAllParticipants(participantsRef.current);
+    };
+    rewire();
+
+    if (!broadcastPresenterId) {
+      announce('Presenter mode off. Everyone can speak');
+    } else if (broadcastPresenterId === currentUserId) {
+      announce('You are now presenting');
+      toast.info('You are now presenting. Everyone can hear you');
+    } else {
+      const name = participantsRef.current.find(p => p.id === broadcastPresenterId)?.name || 'Another participant';
+      announce(`${name} is presenting. You are listening`);
+      toast.info(`${name} is presenting`);
+    }
+  }, [broadcastPresenterId]);
+
+  // Voice activity: ours from the microphone, everyone else's from their connection
+  const [isLocallySpeaking, setIsLocallySpeaking] = useState(false);
+  const [remoteSpeakingIds, setRemoteSpeakingIds] = useState<Set<string>>(new Set());
+  const isMicLive = !isListener && !isListenOnly && (isPushToTalk ? isPushToTalkPressed && (!isFloorControlled || holdsFloor) : !isMuted);
+
+  useEffect(() => {
+    if (!stream || !isMicLive || !currentUserId) return;
+
+    // Only state flips are written, so isSpeaking writes stay rare
+    let speaking = false;
+    const detector = new VoiceActivityDetector();
+    detector.start(stream, (isSpeaking) => {
+      speaking = isSpeaking;
+      setIsLocallySpeaking(isSpeaking);
+      signaling.updateParticipantSpeaking(currentUserId, isSpeaking);
+    });
+
+    return () => {
+      detector.stop();
+      setIsLocallySpeaking(false);
+      if (speaking) {
+        signaling.updateParticipantSpeaking(currentUserId, false);
+      }
+    };
+  }, [stream, isMicLive]);
+
+  useEffect(() => {
+    const monitor = new RemoteSpeakingMonitor();
+    monitor.start(() => peerManager.getAudioLevels(), setRemoteSpeakingIds);
+    return () => monitor.stop();
+  }, []);
+
+  // "X is speaking" for screen readers, at most once per cooldown
+  const previousRemoteSpeakingIdsRef = useRef(remoteSpeakingIds);
+  const lastSpeakingAnnouncementRef = useRef(0);
+  useEffect(() => {
+    const previous = previousRemoteSpeakingIdsRef.current;
+    previousRemoteSpeakingIdsRef.current = remoteSpeakingIds;
+
+    const started = Array.from(remoteSpeakingIds).filter(id => !previous.has(id));
+    if (started.length === 0 || Date.now() - lastSpeakingAnnouncementRef.current < VAD_CONFIG.announceCooldown) return;
+
+    const name = participantsRef.current.find(p => p.id === started[0])?.name;
+    if (name) {
+      lastSpeakingAnnouncementRef.current = Date.now();
+      announceSpeaking(name);
+    }
+  }, [remoteSpeakingIds]);
+
+  // The isSpeaking flag covers participants we have no connection to, e.g. fellow listeners
+  const isParticipantSpeaking = (participant: Participant) =>
+    participant.id === currentUserId ? isLocallySpeaking : remoteSpeakingIds.has(participant.id) || !!participant.isSpeaking;
+  const withSpeaking = (participant: Participant) => ({ ...participant, isSpeaking: isParticipantSpeaking(participant) });
+
+  // Connection quality per peer; re-render on every stats sample
+  const [, setCallStatsVersion] = useState(0);
+  useEffect(() => {
+    return callStats.subscribe(() => setCallStatsVersion(version => version + 1));
+  }, []);
+
+  const makePresenter = async (participantId: string) => {
+    try {
+      await signaling.setPresenter(participantId);
+    } catch (error) {
+      toast.error('Failed to change the presenter');
+    }
+  };
+
+  // Announce host handovers, but not the host we joined with
+  const previousHostIdRef = useRef(hostId);
+  useEffect(() => {
+    if (previousHostIdRef.current === hostId) return;
+    previousHostIdRef.current = hostId;
+
+    if (hostId === currentUserId) {
+      announce('You are now the host');
+      toast.info('You are now the host');
+      vibrate([100, 50, 100]);
+    } else {
+      const name = participantsRef.current.find(p => p.id === hostId)?.name || 'Another participant';
+      announce(`${name} is now the host`);
+      toast.info(`${name} is now the host`);
+    }
+  }, [hostId]);
+
+  const transferHost = async (participant: Participant) => {
+    try {
+      await signaling.transferHost(participant.id);
+    } catch (error) {
+      toast.error('Failed to transfer the host role');
+    }
+  };
+
+  const toggleCoHost = async (participant: Participant) => {
+    const makeCoHost = coHostId !== participant.id;
+    try {
+      await signaling.setCoHost(makeCoHost ? participant.id : null);
+      const message = makeCoHost
+        ? `${participant.name} will take over if you leave`
+        : `${participant.name} is no longer co-host`;
+      announce(message);
+      toast.success(message);
+    } catch (error) {
+      toast.error('Failed to update co-host');
+    }
+  };
+
+  const removeParticipant = async (participant: Participant) => {
+    try {
+      await signaling.removeParticipant(participant.id);
+      announce(`${participant.name} was removed`);
+      toast.success(`Removed ${participant.name} from the bubble`);
+    } catch (error) {
+      toast.error('Failed to remove participant');
+    }
+  };
+
+  // Raised hands, in speaking order; hands of people who already left are skipped
+  const handQueue = raisedHands.filter(id => participants.some(p => p.id === id));
+  const handPosition = currentUserId ? handQueue.indexOf(currentUserId) + 1 : 0;
+  const queuedParticipants = handQueue
+    .map(id => participants.find(p => p.id === id))
+    .filter((p): p is Participant => !!p);
+
+  // Who is talking in walkie-talkie mode; expired grants and people who left don't count
+  const grantedFloorHolderId = isFloorControlled ? getFloorHolder(floor) : null;
+  const floorHolderId = participants.some(p => p.id === grantedFloorHolderId) ? grantedFloorHolderId : null;
+  const floorHolder = participants.find(p => p.id === floorHolderId);
+
+  // Tell the host when a new hand goes up
+  const previousHandQueueRef = useRef(handQueue);
+  useEffect(() => {
+    const previous = previousHandQueueRef.current;
+    previousHandQueueRef.current = handQueue;
+    if (!isHost) return;
+
+    handQueue
+      .filter(id => !previous.includes(id) && id !== currentUserId)
+      .forEach(id => {
+        const name = participants.find(p => p.id === id)?.name || 'Someone';
+        announce(`${name} raised their hand`);
+      });
+  }, [handQueue.join(',')]);
+
+  const toggleHand = async () => {
+    try {
+      if (handPosition > 0) {
+        await signaling.lowerHand();
+        announce('Hand lowered');
+      } else {
+        await signaling.raiseHand();
+        announce(`Hand raised. You are number ${handQueue.length + 1} in line`);
+        vibrate(50);
+      }
+    } catch (error) {
+      toast.error('Failed to update your hand');
+    }
+  };
+
+  const callOnNext = async () => {
+    try {
+      const next = await signaling.callOnNext();
+      if (!next) {
+        announce('No hands are raised');
+        return;
+      }
+      announce(`Called on ${next.name}`);
+      toast.success(`Called on ${next.name}`);
+    } catch (error) {
+      toast.error('Failed to call on the next person');
+    }
+  };
+
+  const lowerHand = async (participant: Participant) => {
+    try {
+      await signaling.lowerHand(participant.id);
+      announce(`Lowered ${participant.name}'s hand`);
+    } catch (error) {
+      toast.error('Failed to lower hand');
+    }
+  };
+
+  const lowerAllHands = async () => {
+    try {
+      await signaling.lowerAllHands();
+      announce('All hands lowered');
+      toast.success('All hands lowered');
+    } catch (error) {
+      toast.error('Failed to lower hands');
+    }
+  };
+
+  const remoteParticipants = participants.filter(p => p.id !== currentUserId);
+
+  // Place voices from join order; dragged positions on the room map win
+  const arrangedParticipants = [...remoteParticipants]
+    .sort((a, b) => ((toMillis(a.joinedAt) ?? 0) - (toMillis(b.joinedAt) ?? 0)) || a.id.localeCompare(b.id));
+  const arrangedIds = arrangedParticipants.map(p => p.id).join(',');
+  useEffect(() => {
+    audioMixer.arrange(arrangedIds ? arrangedIds.split(',') : []);
+  }, [arrangedIds]);
+
+  const changeSpatialMode = (mode: SpatialMode) => {
+    audioMixer.setSpatialMode(mode);
+    setSpatialMode(mode);
+    const label = SPATIAL_MODE_OPTIONS.find(option => option.value === mode)!.label;
+    announce(`Spatial audio: ${label}`);
+  };
+
+  // Microphone and speaker selection
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const [inputDeviceId, setInputDeviceId] = useState(() => deviceManager.getInputDeviceId());
+  const [outputDeviceId, setOutputDeviceId] = useState(() => deviceManager.getOutputDeviceId());
+
+  const changeMicrophone = async (deviceId: string) => {
+    try {
+      // Moves the caption clone along with the one our connections send
+      await peerManager.switchMicrophone(deviceId);
+      if (stream) {
+        // A new stream object restarts voice activity detection on the new track
+        setStream(new MediaStream(stream.getAudioTracks()));
+      }
+      setInputDeviceId(deviceManager.getInputDeviceId());
+    } catch (error) {
+      console.error('❌ Failed to switch microphone:', error);
+      toast.error('Could not switch to that microphone');
+    }
+  };
+  const changeMicrophoneRef = useRef(changeMicrophone);
+  changeMicrophoneRef.current = changeMicrophone;
+
+  const changeSpeaker = async (deviceId: string) => {
+    try {
+      await peerManager.setOutputDevice(deviceId);
+      setOutputDeviceId(deviceId);
+    } catch (error) {
+      console.error('❌ Failed to switch speaker:', error);
+      toast.error('Could not switch to that speaker');
+    }
+  };
+  const changeSpeakerRef = useRef(changeSpeaker);
+  changeSpeakerRef.current = changeSpeaker;
+
+  // Fall back to the defaults when a device in use goes away, e.g. a headset unplugged
+  useEffect(() => {
+    const refreshDevices = async () => {
+      const available = await deviceManager.listDevices();
+      setDevices(available);
+
+      const chosenInput = deviceManager.getInputDeviceId();
+      const localTrack = peerManager.getLocalStream()?.getAudioTracks()[0];
+      const inputGone = !!chosenInput && !available.inputs.some(device => device.deviceId === chosenInput);
+      if (inputGone || localTrack?.readyState === 'ended') {
+        await changeMicrophoneRef.current('');
+        announce('Microphone disconnected. Switched to the default microphone');
+        toast.warning('Microphone disconnected. Switched to the default microphone');
+      }
+
+      const chosenOutput = deviceManager.getOutputDeviceId();
+      if (chosenOutput && !available.outputs.some(device => device.deviceId === chosenOutput)) {
+        await changeSpeakerRef.current('');
+        announce('Speaker disconnected. Playing through the default speaker');
+        toast.warning('Speaker disconnected. Playing through the default speaker');
+      }
+    };
+
+    refreshDevices();
+    return deviceManager.onDeviceChange(refreshDevices);
+  }, []);
+
+  // Device labels only show up once microphone permission is granted
+  useEffect(() => {
+    if (stream) {
+      deviceManager.listDevices().then(setDevices);
+    }
+  }, [stream]);
+
+  const changeMasterVolume = (volume: number) => {
+    audioMixer.setMasterVolume(volume);
+    setMasterVolume(audioMixer.getMasterVolume());
+  };
+
+  const requestMute = async (participant: Participant | null) => {
+    try {
+      await signaling.requestMute(participant ? participant.id : null);
+      const who = participant ? participant.name : 'everyone';
+      announce(`Asked ${who} to mute`);
+      toast.success(`Asked ${who} to mute`);
+    } catch (error) {
+      toast.error('Failed to send mute request');
+    }
+  };
+
+  // Waiting room queue (host only)
+  useEffect(() => {
+    if (!isHost || !roomData.settings?.waitingRoom) return;
+
+    return signaling.onAdmissionRequests((requests) => {
+      const newRequests = requests.filter(request => !knownAdmissionRequestsRef.current.has(request.id));
+      knownAdmissionRequestsRef.current = new Set(requests.map(request => request.id));
+      newRequests.forEach(request => {
+        announce(`${request.name} is waiting to join`);
+        toast.info(`${request.name} is waiting to join`);
+      });
+      if (newRequests.length > 0) {
+        vibrate([100, 50, 100]);
+      }
+      setAdmissionRequests(requests);
+    });
+  }, [isHost, roomData.id]);
+
+  // Chat messages, counted and announced while the chat tab is closed
+  useEffect(() => {
+    return chatService.onMessages(roomData.id, (messages) => {
+      const seen = seenChatIdsRef.current;
+      seenChatIdsRef.current = new Set(messages.map(message => message.id!));
+      setChatMessages(messages);
+      if (!seen || activeTabRef.current === 'chat') return;
+
+      const incoming = messages.filter(message => !seen.has(message.id!) && message.userId !== authService.getCurrentUserId());
+      if (incoming.length === 0) return;
+      setUnreadChatCount(count => count + incoming.length);
+      const latest = incoming[incoming.length - 1];
+      announce(`${latest.userName} wrote: ${latest.text}`);
+    });
+  }, [roomData.id]);
+
+  const openChat = () => {
+    setActiveTab('chat');
+    setUnreadChatCount(0);
+  };
+
+  // Audit log of live setting changes
+  useEffect(() => {
+    return signaling.onAuditLog(roomData.id, setAuditLog);
+  }, [roomData.id]);
+
+  const updateRoomSetting = async <K extends keyof EditableRoomSettings>(key: K, value: EditableRoomSettings[K]) => {
+    try {
+      await signaling.updateRoomSettings({ [key]: value });
+      vibrate(100);
+    } catch (error) {
+      toast.error('Failed to update room settings');
+    }
+  };
+
+  const resolveAdmission = async (request: AdmissionRequest, admit: boolean) => {
+    try {
+      if (admit) {
+        await signaling.admitParticipant(request.id);
+        announce(`${request.name} admitted`);
+      } else {
+        await signaling.denyParticipant(request.id);
+        announce(`${request.name} denied`);
+      }
+    } catch (error) {
+      toast.error(`Failed to ${admit ? 'admit' : 'deny'} ${request.name}`);
+    }
+  };
+
+  const toggleRoomLock = async () => {
+    const locked = !isLocked;
+    try {
+      await signaling.setRoomLocked(locked);
+      setIsLocked(locked);
+      announce(locked ? 'Room locked. No one new can join' : 'Room unlocked');
+      vibrate(100);
+    } catch (error) {
+      toast.error('Failed to update room lock');
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-indigo-50 flex flex-col">
@@ -579,13 +1372,25 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
                 <span className="text-xs text-gray-500 font-mono" aria-label={`Room code: ${roomData.id}`}>
                   {roomData.id}
                 </span>
-                {roomData.host && (
+                {isHost && (
                   <Badge className="bg-yellow-100 text-yellow-800 text-xs" aria-label="You are the host">
                     <Crown className="h-2.5 w-2.5 mr-1" aria-hidden="true" />
                     Host
                   </Badge>
                 )}
-                {isTranscribing && roomData.settings?.transcription !== false && (
+                {broadcastPresenterId && (
+                  <Badge className="bg-blue-100 text-blue-800 text-xs" aria-label={isListener ? 'Presenter mode, you are listening' : 'Presenter mode, you are presenting'}>
+                    <Presentation className="h-2.5 w-2.5 mr-1" aria-hidden="true" />
+                    {isListener ? 'Listening' : 'Presenting'}
+                  </Badge>
+                )}
+                {isLocked && (
+                  <Badge className="bg-gray-100 text-gray-700 text-xs" aria-label="Room is locked">
+                    <Lock className="h-2.5 w-2.5 mr-1" aria-hidden="true" />
+                    Locked
+                  </Badge>
+                )}
+                {isTranscribing && roomSettings.transcription !== false && (
                   <Badge className={`text-xs ${
                     isTranscriptionMuted 
                       ? 'bg-yellow-100 text-yellow-800' 
@@ -600,6 +1405,17 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
           </div>
           
           <div className="flex items-center space-x-2" role="toolbar" aria-label="Room actions">
+            {isHost && (
+              <Button
+                onClick={() => setShowRoomSettings(true)}
+                variant="ghost"
+                size="sm"
+                className="p-2 focus-ring touch-target"
+                aria-label="Room settings"
+              >
+                <Settings className="h-4 w-4" aria-hidden="true" />
+              </Button>
+            )}
             <Button 
               onClick={toggleQRCode} 
               variant="ghost" 
@@ -641,25 +1457,194 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
 
             {/* Audio Controls */}
             <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
-              <AudioControls
-                isMuted={isMuted}
-                volume={75}
-                isPushToTalk={isPushToTalk}
-                onMuteToggle={toggleMute}
-                onVolumeChange={() => {}}
-                onPushToTalkToggle={setIsPushToTalk}
-                onPushToTalkPress={handlePushToTalkPress}
+              {isListener ? (
+                <div className="text-center space-y-2" role="status">
+                  <Headphones className="h-10 w-10 text-blue-500 mx-auto" aria-hidden="true" />
+                  <h3 className="font-semibold text-gray-900">You are listening</h3>
+                  <p className="text-sm text-gray-500">
+                    {participants.find(p => p.id === broadcastPresenterId)?.name || 'The presenter'} is presenting. Your microphone stays off.
+                  </p>
+                </div>
+              ) : isListenOnly ? (
+                <div className="text-center space-y-3" role="status">
+                  <Headphones className="h-10 w-10 text-blue-500 mx-auto" aria-hidden="true" />
+                  <h3 className="font-semibold text-gray-900">You are listen-only</h3>
+                  <p className="text-sm text-gray-500">
+                    You hear everyone and can read captions. Your microphone stays off.
+                  </p>
+                  <Button onClick={startSpeaking} className="rounded-xl focus-ring">
+                    <Mic className="h-4 w-4 mr-2" aria-hidden="true" />
+                    Start speaking
+                  </Button>
+                </div>
+              ) : (
+                <AudioControls
+                  isMuted={isMuted}
+                  volume={masterVolume}
+                  isPushToTalk={isPushToTalk}
+                  onMuteToggle={toggleMute}
+                  onVolumeChange={changeMasterVolume}
+                  onPushToTalkToggle={setIsPushToTalk}
+                  isPushToTalkActive={isPushToTalkPressed}
+                />
+              )}
+              {isFloorControlled && !isListener && (
+                <p className="mt-4 flex items-center justify-center text-sm text-gray-600" role="status" aria-live="polite">
+                  <Radio className="h-4 w-4 mr-2 text-green-600" aria-hidden="true" />
+                  {floorHolderId === currentUserId
+                    ? 'You have the floor'
+                    : floorHolder
+                      ? `${floorHolder.name} has the floor`
+                      : 'Channel clear. One speaker at a time'}
+                </p>
+              )}
+            </div>
+
+            {/* Microphone and speaker */}
+            <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100">
+              <DeviceSettings
+                devices={devices}
+                inputDeviceId={inputDeviceId}
+                outputDeviceId={outputDeviceId}
+                showInput={!isListener && !isListenOnly}
+                canSelectOutput={deviceManager.supportsOutputSelection()}
+                onInputChange={changeMicrophone}
+                onOutputChange={changeSpeaker}
               />
             </div>
 
+            {/* Raise hand */}
+            <div className="flex justify-center">
+              <Button
+                onClick={toggleHand}
+                variant={handPosition > 0 ? 'default' : 'outline'}
+                className="rounded-2xl focus-ring"
+                aria-pressed={handPosition > 0}
+              >
+                <Hand className="h-4 w-4 mr-2" aria-hidden="true" />
+                {handPosition > 0 ? `Lower hand (#${handPosition} in line)` : 'Raise hand'}
+              </Button>
+            </div>
+
+            {/* Raised hands queue */}
+            {queuedParticipants.length > 0 && (
+              <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100" aria-labelledby="raised-hands-heading">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 id="raised-hands-heading" className="font-semibold text-sm text-gray-700 flex items-center">
+                    <Hand className="h-4 w-4 mr-2 text-yellow-600" aria-hidden="true" />
+                    Raised Hands ({queuedParticipants.length})
+                  </h3>
+                  {isHost && (
+                    <div className="flex items-center space-x-2">
+                      <Button onClick={lowerAllHands} variant="ghost" size="sm" className="focus-ring">
+                        Lower all
+                      </Button>
+                      <Button onClick={callOnNext} size="sm" className="rounded-xl focus-ring">
+                        Call on next
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div role="list" aria-labelledby="raised-hands-heading">
+                  <ParticipantsList
+                    participants={queuedParticipants.map(withSpeaking)}
+                    currentUserId={currentUserId}
+                    raisedHands={handQueue}
+                    floorHolderId={floorHolderId}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Waiting room queue */}
+            {isHost && admissionRequests.length > 0 && (
+              <div className="bg-white rounded-2xl p-4 shadow-sm border border-blue-200" aria-labelledby="waiting-room-heading">
+                <h3 id="waiting-room-heading" className="font-semibold text-sm text-gray-700 mb-3 flex items-center">
+                  <Clock className="h-4 w-4 mr-2 text-blue-600" aria-hidden="true" />
+                  Waiting Room ({admissionRequests.length})
+                </h3>
+                <ul className="space-y-2">
+                  {admissionRequests.map((request) => (
+                    <li key={request.id} className="flex items-center justify-between bg-gray-50 rounded-xl px-3 py-2">
+                      <span className="text-sm font-medium text-gray-700 truncate">{request.name}</span>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          onClick={() => resolveAdmission(request, false)}
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 focus-ring"
+                          aria-label={`Deny ${request.name}`}
+                        >
+                          <UserX className="h-4 w-4" aria-hidden="true" />
+                        </Button>
+                        <Button
+                          onClick={() => resolveAdmission(request, true)}
+                          size="sm"
+                          className="rounded-xl focus-ring"
+                          aria-label={`Admit ${request.name}`}
+                        >
+                          <UserCheck className="h-4 w-4 mr-1" aria-hidden="true" />
+                          Admit
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Discord-style Participants Display */}
             <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100">
               <div className="mb-4">
-                <h3 className="font-semibold text-sm text-gray-700 mb-3">Participants ({participants.length})</h3>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold text-sm text-gray-700">Participants ({participants.length})</h3>
+                  {isHost && (
+                    <div className="flex items-center space-x-1" role="toolbar" aria-label="Host controls">
+                      <Button
+                        onClick={() => requestMute(null)}
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs focus-ring"
+                        aria-label="Ask everyone to mute"
+                      >
+                        <MicOff className="h-3.5 w-3.5 mr-1" aria-hidden="true" />
+                        Mute all
+                      </Button>
+                      {isListener && (
+                        <Button
+                          onClick={() => currentUserId && makePresenter(currentUserId)}
+                          variant="ghost"
+                          size="sm"
+                          className="text-xs focus-ring"
+                          aria-label="Take over presenting"
+                        >
+                          <Presentation className="h-3.5 w-3.5 mr-1" aria-hidden="true" />
+                          Present
+                        </Button>
+                      )}
+                      <Button
+                        onClick={toggleRoomLock}
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs focus-ring"
+                        aria-label={isLocked ? 'Unlock room' : 'Lock room'}
+                        aria-pressed={isLocked}
+                      >
+                        {isLocked ? (
+                          <Lock className="h-3.5 w-3.5 mr-1" aria-hidden="true" />
+                        ) : (
+                          <Unlock className="h-3.5 w-3.5 mr-1" aria-hidden="true" />
+                        )}
+                        {isLocked ? 'Locked' : 'Lock'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
                 <div className="flex flex-wrap gap-4 sm:gap-6">
                   {participants.map((participant) => {
-                    const isCurrentUser = participant.id === authService.getCurrentUserId();
-                    const isSpeaking = !participant.isMuted && participant.isSpeaking;
+                    const isCurrentUser = participant.id === currentUserId;
+                    const isSpeaking = !participant.isMuted && isParticipantSpeaking(participant);
+                    const quality = isCurrentUser ? undefined : callStats.getLatest(participant.id);
                     
                     return (
                       <div
@@ -670,6 +1655,49 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
                             : 'bg-gray-50 border border-gray-200'
                         }`}
                       >
+                        {/* Host actions */}
+                        {isHost && !isCurrentUser && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <button
+                                className="absolute top-1 right-1 p-1 rounded-full text-gray-500 hover:bg-gray-200 focus-ring"
+                                aria-label={`Host actions for ${participant.name}`}
+                              >
+                                <MoreVertical className="h-3.5 w-3.5" aria-hidden="true" />
+                              </button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onSelect={() => requestMute(participant)} disabled={participant.isMuted}>
+                                <MicOff className="h-4 w-4" aria-hidden="true" />
+                                Ask to mute
+                              </DropdownMenuItem>
+                              {handQueue.includes(participant.id) && (
+                                <DropdownMenuItem onSelect={() => lowerHand(participant)}>
+                                  <Hand className="h-4 w-4" aria-hidden="true" />
+                                  Lower hand
+                                </DropdownMenuItem>
+                              )}
+                              {broadcastPresenterId && participant.id !== broadcastPresenterId && (
+                                <DropdownMenuItem onSelect={() => makePresenter(participant.id)}>
+                                  <Presentation className="h-4 w-4" aria-hidden="true" />
+                                  Make presenter
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem onSelect={() => transferHost(participant)}>
+                                <Crown className="h-4 w-4" aria-hidden="true" />
+                                Make host
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onSelect={() => toggleCoHost(participant)}>
+                                <UserCheck className="h-4 w-4" aria-hidden="true" />
+                                {coHostId === participant.id ? 'Remove co-host' : 'Make co-host'}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem variant="destructive" onSelect={() => removeParticipant(participant)}>
+                                <UserX className="h-4 w-4" aria-hidden="true" />
+                                Remove from bubble
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                         {/* Avatar */}
                         <div className="relative">
                           <div className={`w-12 h-12 rounded-full flex items-center justify-center text-white font-semibold text-lg ${
@@ -685,6 +1713,16 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
                             </div>
                           )}
                           
+                          {/* Raised hand indicator */}
+                          {handQueue.includes(participant.id) && (
+                            <div
+                              className="absolute -top-1 -right-1 w-5 h-5 bg-yellow-500 rounded-full border-2 border-white flex items-center justify-center text-xs font-semibold text-white"
+                              aria-label={`Hand raised, number ${handQueue.indexOf(participant.id) + 1} in line`}
+                            >
+                              {handQueue.indexOf(participant.id) + 1}
+                            </div>
+                          )}
+
                           {/* Muted indicator */}
                           {participant.isMuted && (
                             <div className="absolute -bottom-1 -right-1 w-4 h-4 bg-red-500 rounded-full border-2 border-white flex items-center justify-center">
@@ -698,6 +1736,39 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
                           <p className="text-xs font-medium text-gray-700 truncate max-w-20">
                             {participant.name}
                           </p>
+                          {participant.id === hostId && (
+                            <p className="flex items-center justify-center text-[10px] text-yellow-700">
+                              <Crown className="h-2.5 w-2.5 mr-0.5" aria-hidden="true" />
+                              Host
+                            </p>
+                          )}
+                          {participant.id === coHostId && (
+                            <p className="text-[10px] text-gray-500">Co-host</p>
+                          )}
+                          {participant.id === floorHolderId && (
+                            <p className="flex items-center justify-center text-[10px] text-green-700">
+                              <Radio className="h-2.5 w-2.5 mr-0.5" aria-hidden="true" />
+                              Talking
+                            </p>
+                          )}
+                          {participant.listenOnly && (
+                            <p className="flex items-center justify-center text-[10px] text-gray-500">
+                              <Headphones className="h-2.5 w-2.5 mr-0.5" aria-hidden="true" />
+                              Listen-only
+                            </p>
+                          )}
+                          {participant.id === broadcastPresenterId && (
+                            <p className="flex items-center justify-center text-[10px] text-blue-700">
+                              <Presentation className="h-2.5 w-2.5 mr-0.5" aria-hidden="true" />
+                              Presenter
+                            </p>
+                          )}
+                          {quality && (
+                            <WifiSignal
+                              strength={quality.strength}
+                              className="justify-center mt-1 scale-75"
+                            />
+                          )}
                         </div>
                         
                         {/* Speaking animation */}
@@ -722,11 +1793,65 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
                 </div>
               </div>
             </div>
+
+            {/* Per-participant mixer */}
+            {remoteParticipants.length > 0 && (
+              <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100">
+                <div className="flex items-center justify-between">
+                  <h3 id="mixer-heading" className="font-semibold text-sm text-gray-700 flex items-center">
+                    <SlidersHorizontal className="h-4 w-4 mr-2 text-gray-600" aria-hidden="true" />
+                    Mixer
+                  </h3>
+                  <Button
+                    onClick={() => setShowMixer(!showMixer)}
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs focus-ring"
+                    aria-expanded={showMixer}
+                    aria-controls="mixer-panel"
+                  >
+                    {showMixer ? 'Hide' : 'Adjust levels'}
+                  </Button>
+                </div>
+                {showMixer && (
+                  <div id="mixer-panel" className="mt-3 space-y-4">
+                    {/* Spatial audio */}
+                    <div className="space-y-3">
+                      <Label id="spatial-mode-label" className="text-sm">Spatial audio</Label>
+                      <RadioGroup
+                        value={spatialMode}
+                        onValueChange={(mode) => changeSpatialMode(mode as SpatialMode)}
+                        className="flex flex-wrap gap-4"
+                        aria-labelledby="spatial-mode-label"
+                      >
+                        {SPATIAL_MODE_OPTIONS.map(option => (
+                          <div key={option.value} className="flex items-center space-x-2">
+                            <RadioGroupItem value={option.value} id={`spatial-mode-${option.value}`} />
+                            <Label htmlFor={`spatial-mode-${option.value}`} className="text-sm font-normal">{option.label}</Label>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                      {spatialMode !== 'off' && <RoomMap participants={arrangedParticipants} />}
+                    </div>
+
+                    <div role="list" aria-labelledby="mixer-heading">
+                      <ParticipantsList
+                        participants={remoteParticipants.map(withSpeaking)}
+                        currentUserId={currentUserId}
+                        raisedHands={handQueue}
+                        floorHolderId={floorHolderId}
+                        showMixer
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         )}
 
 
-        {activeTab === 'captions' && roomData.settings?.transcription !== false && (
+        {activeTab === 'captions' && roomSettings.transcription !== false && (
           <div 
             className="p-2 sm:p-4 h-full overflow-hidden"
             role="tabpanel"
@@ -745,7 +1870,7 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
                   userName={(() => {
                     const currentUserId = authService.getCurrentUserId();
                     const currentParticipant = participants.find(p => p.id === currentUserId);
-                    return currentParticipant?.name || (roomData as any).displayName || 'You';
+                    return currentParticipant?.name || roomData.displayName || 'You';
                   })()}
                   stream={stream}
                   isTranscribing={isTranscribing}
@@ -758,7 +1883,7 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
           </div>
         )}
 
-        {activeTab === 'captions' && roomData.settings?.transcription === false && (
+        {activeTab === 'captions' && roomSettings.transcription === false && (
           <div 
             className="p-4 h-full overflow-y-auto"
             role="tabpanel"
@@ -769,7 +1894,30 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
               <div className="text-center space-y-3">
                 <MessageSquare className="h-12 w-12 text-gray-400 mx-auto" />
                 <h3 className="text-lg font-semibold text-gray-700">Live Captions Disabled</h3>
-                <p className="text-sm text-gray-500">Live captions were disabled when this room was created.</p>
+                <p className="text-sm text-gray-500">The host has turned live captions off for this room.</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'chat' && (
+          <div 
+            className="p-2 sm:p-4 h-full overflow-hidden"
+            role="tabpanel"
+            id="chat-panel"
+            aria-labelledby="chat-tab"
+          >
+            <div className="bg-white rounded-2xl p-2 sm:p-4 shadow-sm border border-gray-100 h-full flex flex-col">
+              <div className="mb-2 sm:mb-4 flex-shrink-0">
+                <h2 className="font-semibold text-sm sm:text-base" id="chat-heading">Chat</h2>
+              </div>
+              <div className="flex-1 min-h-0" aria-labelledby="chat-heading">
+                <ChatPanel
+                  roomId={roomData.id}
+                  userId={currentUserId || 'unknown'}
+                  userName={participants.find(p => p.id === currentUserId)?.name || roomData.displayName || 'You'}
+                  messages={chatMessages}
+                />
               </div>
             </div>
           </div>
@@ -798,7 +1946,7 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
           </button>
           
           
-          {roomData.settings?.transcription !== false && (
+          {roomSettings.transcription !== false && (
             <button
               onClick={() => setActiveTab('captions')}
               className={`flex flex-col items-center space-y-1 py-2 px-3 rounded-xl transition-colors focus-ring touch-target ${
@@ -814,22 +1962,53 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
             </button>
           )}
 
-          {/* Quick Mute Button */}
           <button
-            onClick={toggleMute}
-            className={`flex flex-col items-center space-y-1 py-2 px-3 rounded-xl transition-colors focus-ring touch-target ${
-              isMuted ? 'text-red-600 bg-red-50' : 'text-green-600 bg-green-50'
+            onClick={openChat}
+            className={`relative flex flex-col items-center space-y-1 py-2 px-3 rounded-xl transition-colors focus-ring touch-target ${
+              activeTab === 'chat' ? 'text-blue-600 bg-blue-50' : 'text-gray-500'
             }`}
-            aria-label={isMuted ? 'Unmute microphone' : 'Mute microphone'}
-            aria-pressed={isMuted}
+            role="tab"
+            aria-selected={activeTab === 'chat'}
+            aria-controls="chat-panel"
+            id="chat-tab"
+            aria-label={unreadChatCount > 0 ? `Chat, ${unreadChatCount} unread` : 'Chat'}
           >
-            {isMuted ? (
-              <MicOff className="h-5 w-5" aria-hidden="true" />
-            ) : (
-              <Mic className="h-5 w-5" aria-hidden="true" />
+            <MessageCircle className="h-5 w-5" aria-hidden="true" />
+            <span className="text-xs font-medium">Chat</span>
+            {unreadChatCount > 0 && (
+              <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center" aria-hidden="true">
+                {unreadChatCount}
+              </span>
             )}
-            <span className="text-xs font-medium">{isMuted ? 'Muted' : 'Live'}</span>
           </button>
+
+          {/* Quick Mute Button */}
+          {isListenOnly ? (
+            <button
+              onClick={startSpeaking}
+              className="flex flex-col items-center space-y-1 py-2 px-3 rounded-xl transition-colors focus-ring touch-target text-blue-600 bg-blue-50"
+              aria-label="Listen-only. Start speaking"
+            >
+              <Headphones className="h-5 w-5" aria-hidden="true" />
+              <span className="text-xs font-medium">Listening</span>
+            </button>
+          ) : (
+            <button
+              onClick={toggleMute}
+              className={`flex flex-col items-center space-y-1 py-2 px-3 rounded-xl transition-colors focus-ring touch-target ${
+                isMuted ? 'text-red-600 bg-red-50' : 'text-green-600 bg-green-50'
+              }`}
+              aria-label={isMuted ? 'Unmute microphone' : 'Mute microphone'}
+              aria-pressed={isMuted}
+            >
+              {isMuted ? (
+                <MicOff className="h-5 w-5" aria-hidden="true" />
+              ) : (
+                <Mic className="h-5 w-5" aria-hidden="true" />
+              )}
+              <span className="text-xs font-medium">{isMuted ? 'Muted' : 'Live'}</span>
+            </button>
+          )}
         </div>
       </nav>
 
@@ -858,6 +2037,95 @@ export function AudioBubble({ roomData, onLeave }: AudioBubbleProps) {
         </div>
       )}
 
+      {/* Host room settings */}
+      {isHost && (
+        <Sheet open={showRoomSettings} onOpenChange={setShowRoomSettings}>
+          <SheetContent side="bottom" className="rounded-t-2xl">
+            <SheetHeader>
+              <SheetTitle>Room settings</SheetTitle>
+              <SheetDescription>Changes apply to everyone in the bubble right away.</SheetDescription>
+            </SheetHeader>
+            <div className="px-4 space-y-5" role="group" aria-label="Room settings">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-base" htmlFor="room-push-to-talk-switch">Push to Talk</Label>
+                  <p className="text-sm text-gray-500">Everyone holds to speak</p>
+                </div>
+                <Switch
+                  id="room-push-to-talk-switch"
+                  checked={roomSettings.pushToTalk}
+                  onCheckedChange={(checked) => updateRoomSetting('pushToTalk', checked)}
+                />
+              </div>
+              {roomSettings.pushToTalk && (
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label className="text-base" htmlFor="room-exclusive-floor-switch">One Speaker at a Time</Label>
+                    <p className="text-sm text-gray-500">Others hear a busy tone while someone talks</p>
+                  </div>
+                  <Switch
+                    id="room-exclusive-floor-switch"
+                    checked={!!roomSettings.exclusiveFloor}
+                    onCheckedChange={(checked) => updateRoomSetting('exclusiveFloor', checked)}
+                  />
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-base" htmlFor="room-presenter-mode-switch">Presenter Mode</Label>
+                  <p className="text-sm text-gray-500">Only the presenter speaks</p>
+                </div>
+                <Switch
+                  id="room-presenter-mode-switch"
+                  checked={!!roomSettings.presenterMode}
+                  onCheckedChange={(checked) => updateRoomSetting('presenterMode', checked)}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-base" htmlFor="room-transcription-switch">Live Captions</Label>
+                  <p className="text-sm text-gray-500">Transcribe speech for everyone</p>
+                </div>
+                <Switch
+                  id="room-transcription-switch"
+                  checked={roomSettings.transcription !== false}
+                  onCheckedChange={(checked) => updateRoomSetting('transcription', checked)}
+                />
+              </div>
+              <div className="space-y-3">
+                <Label className="text-base" id="room-audio-profile-label">Audio Quality</Label>
+                <RadioGroup
+                  value={roomSettings.audioProfile ?? 'standard'}
+                  onValueChange={(profile) => updateRoomSetting('audioProfile', profile as AudioProfile)}
+                  aria-labelledby="room-audio-profile-label"
+                >
+                  {AUDIO_PROFILE_OPTIONS.map(option => (
+                    <div key={option.value} className="flex items-start space-x-3">
+                      <RadioGroupItem value={option.value} id={`room-audio-profile-${option.value}`} className="mt-1" />
+                      <Label htmlFor={`room-audio-profile-${option.value}`} className="flex flex-col items-start font-normal">
+                        <span className="text-sm font-medium">{option.label}</span>
+                        <span className="text-sm text-gray-500">{option.description}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            </div>
+            {auditLog.length > 0 && (
+              <div className="px-4 pb-6">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Recent changes</h3>
+                <ul className="space-y-1" aria-label="Recent setting changes">
+                  {auditLog.slice(-5).reverse().map(entry => (
+                    <li key={entry.id} className="text-xs text-gray-600">
+                      <span className="font-medium">{entry.changedByName}</span> {describeSettingChanges(entry.changes)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </SheetContent>
+        </Sheet>
+      )}
     </div>
   );
 }
\ No newline at end of file
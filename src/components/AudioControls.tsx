@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Slider } from './ui/slider';
 import { Switch } from './ui/switch';
@@ -7,42 +8,58 @@ import {
   Mic, 
   MicOff, 
   KeyRound,
-  Hand
+  Hand,
+  Volume2,
+  Keyboard,
+  Gamepad2,
+  Plus,
+  X
 } from 'lucide-react';
+import { pttManager, bindingId, describeBinding, PTT_POINTER_SOURCE, type PTTSettings } from '../webrtc';
+import { MIXER_CONFIG, PTT_CONFIG } from '../webrtc/config';
 
 interface AudioControlsProps {
   isMuted: boolean;
   volume: number;
   isPushToTalk: boolean;
+  // Talking right now in push-to-talk, from any binding or the on-screen button
+  isPushToTalkActive: boolean;
   onMuteToggle: () => void;
   onVolumeChange: (volume: number) => void;
   onPushToTalkToggle: (enabled: boolean) => void;
-  onPushToTalkPress: (pressed: boolean) => void;
 }
 
 export function AudioControls({
   isMuted,
   volume,
   isPushToTalk,
+  isPushToTalkActive,
   onMuteToggle,
   onVolumeChange,
-  onPushToTalkToggle,
-  onPushToTalkPress
+  onPushToTalkToggle
 }: AudioControlsProps) {
-  const [isTouchPressed, setIsTouchPressed] = useState(false);
+  const [pttSettings, setPttSettings] = useState<PTTSettings>(() => pttManager.getSettings());
 
-  const isMicActive = !isMuted && (!isPushToTalk || isTouchPressed);
+  useEffect(() => {
+    setPttSettings(pttManager.getSettings());
+    return pttManager.subscribe(() => setPttSettings(pttManager.getSettings()));
+  }, []);
 
-  const handlePushToTalkStart = () => {
+  const isMicActive = !isMuted && (!isPushToTalk || isPushToTalkActive);
+  const isLatched = pttSettings.latch;
+  const firstKeyBinding = pttSettings.bindings.find(binding => binding.type !== 'media-session');
+
+  // The on-screen button goes through the PTT manager like any other binding,
+  // so latch and the release tail apply to it too
+  const handlePushToTalkStart = (event: React.PointerEvent<HTMLButtonElement>) => {
     console.log('🎤 PTT Start triggered');
-    setIsTouchPressed(true);
-    onPushToTalkPress(true);
+    event.preventDefault();
+    pttManager.press(PTT_POINTER_SOURCE);
   };
 
   const handlePushToTalkEnd = () => {
     console.log('🎤 PTT End triggered');
-    setIsTouchPressed(false);
-    onPushToTalkPress(false);
+    pttManager.release(PTT_POINTER_SOURCE);
   };
 
   return (
@@ -56,22 +73,23 @@ export function AudioControls({
         <div className="flex flex-col items-center space-y-4">
           {isPushToTalk ? (
             <button
-              onTouchStart={handlePushToTalkStart}
-              onTouchEnd={handlePushToTalkEnd}
-              onMouseDown={handlePushToTalkStart}
-              onMouseUp={handlePushToTalkEnd}
-              onMouseLeave={handlePushToTalkEnd}
-              className={`w-24 h-24 rounded-full transition-all duration-150 flex items-center justify-center shadow-lg select-none focus-ring touch-target ${
-                isTouchPressed 
+              onPointerDown={handlePushToTalkStart}
+              onPointerUp={handlePushToTalkEnd}
+              onPointerLeave={handlePushToTalkEnd}
+              onPointerCancel={handlePushToTalkEnd}
+              className={`w-24 h-24 rounded-full transition-all duration-150 flex items-center justify-center shadow-lg select-none touch-none focus-ring touch-target ${
+                isPushToTalkActive
                   ? 'bg-green-600 text-white scale-110 shadow-xl' 
                   : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
               }`}
-              aria-label={isTouchPressed ? 'Speaking - release to stop' : 'Push and hold to speak'}
-              aria-pressed={isTouchPressed}
+              aria-label={isLatched
+                ? (isPushToTalkActive ? 'Speaking - press to stop' : 'Press to speak')
+                : (isPushToTalkActive ? 'Speaking - release to stop' : 'Push and hold to speak')}
+              aria-pressed={isPushToTalkActive}
               role="button"
               aria-describedby="push-to-talk-desc"
             >
-              {isTouchPressed ? (
+              {isPushToTalkActive ? (
                 <Mic className="h-10 w-10" aria-hidden="true" />
               ) : (
                 <Hand className="h-10 w-10" aria-hidden="true" />
@@ -96,13 +114,14 @@ export function AudioControls({
           <div className="text-center">
             <p className="font-medium" aria-live="polite">
               {isPushToTalk 
-                ? (isTouchPressed ? 'Speaking' : 'Hold to Talk') 
+                ? (isPushToTalkActive ? 'Speaking' : isLatched ? 'Tap to Talk' : 'Hold to Talk') 
                 : (isMuted ? 'Muted' : 'Live')
               }
             </p>
-            {isPushToTalk && !isTouchPressed && (
+            {isPushToTalk && !isPushToTalkActive && (
               <p className="text-xs text-gray-500 mt-1" id="push-to-talk-desc">
-                Tap and hold button to speak
+                {isLatched ? 'Tap the button' : 'Tap and hold the button'}
+                {firstKeyBinding ? ` or ${describeBinding(firstKeyBinding)}` : ''} to speak
               </p>
             )}
             {!isPushToTalk && (
@@ -119,6 +138,25 @@ export function AudioControls({
       {/* Settings */}
       <div className="space-y-6" role="group" aria-labelledby="audio-settings-heading">
         <h3 id="audio-settings-heading" className="sr-only">Audio Settings</h3>
+
+        <div className="space-y-3" role="group" aria-labelledby="speaker-volume-label">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <Volume2 className="h-5 w-5 text-gray-600" aria-hidden="true" />
+              <div>
+                <Label className="text-base" id="speaker-volume-label">Speaker Volume</Label>
+                <p className="text-sm text-gray-500">Everyone in the bubble</p>
+              </div>
+            </div>
+            <span className="text-sm text-gray-500" aria-hidden="true">{volume}%</span>
+          </div>
+          <Slider
+            value={[volume]}
+            max={MIXER_CONFIG.maxVolume}
+            step={5}
+            onValueChange={([value]) => onVolumeChange(value)}
+          />
+        </div>
         
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
@@ -140,11 +178,131 @@ export function AudioControls({
           <div className="bg-blue-50 p-4 rounded-2xl" role="alert" aria-live="polite">
             <p className="text-sm text-blue-800">
               <Hand className="h-4 w-4 inline mr-2" aria-hidden="true" />
-              <span className="font-medium">Push to Talk is active.</span> Touch and hold the microphone button to speak.
+              <span className="font-medium">Push to Talk is active.</span>{' '}
+              {isLatched
+                ? 'Press the microphone button or a talk button once to speak, and again to stop.'
+                : 'Touch and hold the microphone button or a talk button to speak.'}
             </p>
           </div>
         )}
+
+        {isPushToTalk && <PushToTalkBindings settings={pttSettings} />}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Editor for the talk buttons: key combinations, gamepad buttons, the
+ * headset button, latch mode and the release tail
+ */
+function PushToTalkBindings({ settings }: { settings: PTTSettings }) {
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  // Stop listening for a new binding if the editor goes away mid-capture
+  useEffect(() => {
+    return () => pttManager.cancelCapture();
+  }, []);
+
+  const addBinding = async () => {
+    setIsCapturing(true);
+    const binding = await pttManager.captureBinding();
+    setIsCapturing(false);
+    if (binding) pttManager.addBinding(binding);
+  };
+
+  const buttonBindings = settings.bindings.filter(binding => binding.type !== 'media-session');
+  const hasHeadsetButton = settings.bindings.some(binding => binding.type === 'media-session');
+
+  return (
+    <div className="space-y-5 border-t border-gray-100 pt-5" role="group" aria-labelledby="ptt-bindings-heading">
+      <div className="space-y-3">
+        <div>
+          <Label className="text-base" id="ptt-bindings-heading">Talk Buttons</Label>
+          <p className="text-sm text-gray-500">Keys and gamepad buttons for push to talk</p>
+        </div>
+        <ul className="flex flex-wrap gap-2" aria-labelledby="ptt-bindings-heading">
+          {buttonBindings.map(binding => (
+            <li key={bindingId(binding)}>
+              <Badge variant="secondary" className="text-sm py-1">
+                {binding.type === 'gamepad' ? (
+                  <Gamepad2 className="h-3 w-3 mr-1" aria-hidden="true" />
+                ) : (
+                  <Keyboard className="h-3 w-3 mr-1" aria-hidden="true" />
+                )}
+                {describeBinding(binding)}
+                <button
+                  type="button"
+                  onClick={() => pttManager.removeBinding(binding)}
+                  className="ml-1 rounded-full focus-ring"
+                  aria-label={`Remove ${describeBinding(binding)}`}
+                >
+                  <X className="h-3 w-3" aria-hidden="true" />
+                </button>
+              </Badge>
+            </li>
+          ))}
+          {buttonBindings.length === 0 && (
+            <li className="text-sm text-gray-500">Only the on-screen button</li>
+          )}
+        </ul>
+        {isCapturing ? (
+          <div className="flex items-center justify-between bg-blue-50 p-3 rounded-2xl" role="status" aria-live="polite">
+            <p className="text-sm text-blue-800">Press a key, a key combination or a gamepad button...</p>
+            <Button onClick={() => pttManager.cancelCapture()} variant="ghost" size="sm" className="focus-ring">
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={addBinding} variant="outline" size="sm" className="rounded-xl focus-ring">
+            <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+            Add talk button
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-base" htmlFor="ptt-headset-switch">Headset Button</Label>
+          <p className="text-sm text-gray-500">Play/pause on your headset starts and stops talking</p>
+        </div>
+        <Switch
+          id="ptt-headset-switch"
+          checked={hasHeadsetButton}
+          onCheckedChange={(checked) => checked
+            ? pttManager.addBinding({ type: 'media-session' })
+            : pttManager.removeBinding({ type: 'media-session' })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label className="text-base" htmlFor="ptt-latch-switch">Tap to Talk</Label>
+          <p className="text-sm text-gray-500">Press once to start talking, again to stop</p>
+        </div>
+        <Switch
+          id="ptt-latch-switch"
+          checked={settings.latch}
+          onCheckedChange={(latch) => pttManager.updateSettings({ latch })}
+        />
+      </div>
+
+      <div className="space-y-3" role="group" aria-labelledby="ptt-release-tail-label">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-base" id="ptt-release-tail-label">Release Delay</Label>
+            <p className="text-sm text-gray-500">Keeps the mic open briefly so your last words get through</p>
+          </div>
+          <span className="text-sm text-gray-500" aria-hidden="true">{settings.releaseTail} ms</span>
+        </div>
+        <Slider
+          value={[settings.releaseTail]}
+          max={PTT_CONFIG.maxReleaseTail}
+          step={50}
+          onValueChange={([releaseTail]) => pttManager.updateSettings({ releaseTail })}
+          aria-label="Release delay in milliseconds"
+        />
+      </div>
+    </div>
+  );
+}
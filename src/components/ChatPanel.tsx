@@ -0,0 +1,111 @@
+import { useState, useEffect, useRef, type FormEvent } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Send, MessageCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { chatService, ChatMessage, MAX_CHAT_MESSAGE_LENGTH } from '../services/chatService';
+
+interface ChatPanelProps {
+  roomId: string;
+  userId: string;
+  userName: string;
+  messages: ChatMessage[];
+}
+
+export function ChatPanel({ roomId, userId, userName, messages }: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Auto-scroll to bottom
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const sendMessage = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft.trim() || isSending) return;
+
+    setIsSending(true);
+    try {
+      await chatService.sendMessage(roomId, userName, draft);
+      setDraft('');
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col space-y-3">
+      <div
+        className="flex-1 min-h-0 border rounded-2xl bg-gray-50 overflow-y-auto"
+        ref={scrollRef}
+        role="log"
+        aria-live="polite"
+        aria-label="Chat messages"
+      >
+        <div className="p-3 sm:p-4">
+          {messages.length === 0 ? (
+            <div className="flex items-center justify-center h-24 sm:h-32 text-gray-500">
+              <div className="text-center space-y-2">
+                <MessageCircle className="h-8 w-8 mx-auto opacity-50" aria-hidden="true" />
+                <p className="text-xs sm:text-sm">No messages yet</p>
+                <p className="text-xs">Type below to join the conversation without speaking</p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {messages.map((message) => (
+                <div key={message.id} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-xs sm:text-sm">{message.userName}</span>
+                      {message.userId === userId && (
+                        <Badge variant="secondary" className="text-xs bg-blue-100 text-blue-800">You</Badge>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {message.timestamp?.toDate
+                        ? new Date(message.timestamp.toDate()).toLocaleTimeString()
+                        : 'Sending...'}
+                    </span>
+                  </div>
+                  <div className="bg-white p-2 sm:p-3 rounded-xl border-l-4 border-purple-200 shadow-sm">
+                    <p className="text-xs sm:text-sm leading-relaxed break-words whitespace-pre-wrap">{message.text}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={sendMessage} className="flex items-center gap-2 flex-shrink-0">
+        <label htmlFor="chat-input" className="sr-only">Message</label>
+        <Input
+          id="chat-input"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Type a message..."
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          autoComplete="off"
+          className="h-11 rounded-2xl"
+        />
+        <Button
+          type="submit"
+          disabled={!draft.trim() || isSending}
+          className="h-11 rounded-2xl focus-ring"
+          aria-label="Send message"
+        >
+          <Send className="h-4 w-4" aria-hidden="true" />
+        </Button>
+      </form>
+    </div>
+  );
+}
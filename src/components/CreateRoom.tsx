@@ -5,7 +5,7 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Switch } from './ui/switch';
 import { QRCodeDisplay } from './QRCodeDisplay';
-import { ArrowLeft, Copy, Users, Settings, Share2, Check } from 'lucide-react';
+import { ArrowLeft, Copy, Users, Settings, Share2, Check, Lock } from 'lucide-react';
 import { toast } from 'sonner';
 import { signaling } from '../webrtc/signaling';
 
@@ -18,7 +18,12 @@ export function CreateRoom({ onBack, onRoomCreated }: CreateRoomProps) {
   const [roomName, setRoomName] = useState('');
   const [hostName, setHostName] = useState('');
   const [pushToTalk, setPushToTalk] = useState(false);
+  const [exclusiveFloor, setExclusiveFloor] = useState(false);
   const [transcription, setTranscription] = useState(true);
+  const [waitingRoom, setWaitingRoom] = useState(false);
+  const [presenterMode, setPresenterMode] = useState(false);
+  const [requirePin, setRequirePin] = useState(false);
+  const [pin, setPin] = useState('');
   const [roomCreated, setRoomCreated] = useState(false);
   const [roomData, setRoomData] = useState<any>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -27,6 +32,8 @@ export function CreateRoom({ onBack, onRoomCreated }: CreateRoomProps) {
     return Math.random().toString(36).substring(2, 8).toUpperCase();
   };
 
+  const isValidPin = (value: string) => /^\d{4,8}$/.test(value);
+
   const createRoom = async () => {
     if (!roomName.trim()) {
       toast.error('Please enter a room name');
@@ -38,12 +45,20 @@ export function CreateRoom({ onBack, onRoomCreated }: CreateRoomProps) {
       return;
     }
 
+    if (requirePin && !isValidPin(pin)) {
+      toast.error('PIN must be 4 to 8 digits');
+      return;
+    }
+
     setIsCreating(true);
     try {
       const newRoomData = await signaling.createRoom(roomName, {
         pushToTalk,
-        transcription
-      }, hostName.trim());
+        exclusiveFloor: pushToTalk && exclusiveFloor,
+        transcription,
+        waitingRoom,
+        presenterMode
+      }, hostName.trim(), requirePin ? pin : undefined);
       
       setRoomData(newRoomData);
       setRoomCreated(true);
@@ -107,6 +122,12 @@ export function CreateRoom({ onBack, onRoomCreated }: CreateRoomProps) {
               <p className="text-lg font-mono text-gray-600 bg-gray-50 px-3 py-1 rounded-xl inline-block">
                 {roomData.id}
               </p>
+              {roomData.settings?.pinProtected && (
+                <p className="text-sm text-gray-500 flex items-center justify-center gap-1">
+                  <Lock className="h-4 w-4" />
+                  PIN required to join — share it separately
+                </p>
+              )}
             </div>
 
             <QRCodeDisplay value={roomData.url} size={240} />
@@ -175,6 +196,16 @@ export function CreateRoom({ onBack, onRoomCreated }: CreateRoomProps) {
               <Switch checked={pushToTalk} onCheckedChange={setPushToTalk} />
             </div>
 
+            {pushToTalk && (
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label className="text-base">One Speaker at a Time</Label>
+                  <p className="text-sm text-gray-500">Others hear a busy tone while someone talks</p>
+                </div>
+                <Switch checked={exclusiveFloor} onCheckedChange={setExclusiveFloor} />
+              </div>
+            )}
+
             <div className="flex items-center justify-between">
               <div className="space-y-1">
                 <Label className="text-base">Live Captions</Label>
@@ -182,6 +213,46 @@ export function CreateRoom({ onBack, onRoomCreated }: CreateRoomProps) {
               </div>
               <Switch checked={transcription} onCheckedChange={setTranscription} />
             </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label className="text-base">Presenter Mode</Label>
+                <p className="text-sm text-gray-500">Only you speak; others listen without a microphone</p>
+              </div>
+              <Switch checked={presenterMode} onCheckedChange={setPresenterMode} />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label className="text-base">Waiting Room</Label>
+                <p className="text-sm text-gray-500">Admit each person before they join</p>
+              </div>
+              <Switch checked={waitingRoom} onCheckedChange={setWaitingRoom} />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <Label className="text-base">Require PIN</Label>
+                <p className="text-sm text-gray-500">Only people with the PIN can join</p>
+              </div>
+              <Switch checked={requirePin} onCheckedChange={setRequirePin} />
+            </div>
+
+            {requirePin && (
+              <div className="space-y-2">
+                <Label htmlFor="roomPin" className="text-base">Room PIN</Label>
+                <Input
+                  id="roomPin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  placeholder="4 to 8 digits"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                  className="h-12 text-lg tracking-widest rounded-2xl border-2"
+                />
+              </div>
+            )}
           </div>
         </div>
 
@@ -191,7 +262,7 @@ export function CreateRoom({ onBack, onRoomCreated }: CreateRoomProps) {
             onClick={createRoom} 
             className="w-full h-14 text-lg rounded-2xl shadow-md" 
             size="lg"
-            disabled={!roomName.trim() || !hostName.trim() || isCreating}
+            disabled={!roomName.trim() || !hostName.trim() || (requirePin && !isValidPin(pin)) || isCreating}
           >
             {isCreating ? 'Creating...' : 'Create Bubble'}
           </Button>
@@ -0,0 +1,413 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import { Alert, AlertTitle, AlertDescription } from './ui/alert';
+import { DeviceSettings } from './DeviceSettings';
+import { Mic, MicOff, Volume2, Repeat, Captions, CaptionsOff, Check, RefreshCw, Headphones } from 'lucide-react';
+import { toast } from 'sonner';
+import { deviceManager, microphoneCapture, type AudioDevices } from '../webrtc';
+
+interface DeviceCheckLobbyProps {
+  roomName: string;
+  displayName: string;
+  // listenOnly joins without a microphone
+  onJoin: (listenOnly: boolean) => void;
+  onCancel: () => void;
+}
+
+type EchoTestState = 'idle' | 'recording' | 'playing';
+type BrowserName = 'chrome' | 'edge' | 'firefox' | 'safari' | 'other';
+
+const TEST_TONE_FREQUENCY = 440; // Hz
+const TEST_TONE_SECONDS = 1;
+const ECHO_TEST_SECONDS = 3;
+// dBFS shown as an empty and a full meter
+const METER_FLOOR = -60;
+const METER_CEILING = -10;
+// Meter percent that counts as having heard the user
+const HEARD_LEVEL = 30;
+
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+const detectBrowser = (): BrowserName => {
+  const userAgent = navigator.userAgent;
+  if (/Edg\//.test(userAgent)) return 'edge';
+  if (/Firefox\/|FxiOS\//.test(userAgent)) return 'firefox';
+  if (/Chrome\/|CriOS\//.test(userAgent)) return 'chrome';
+  if (/Safari\//.test(userAgent)) return 'safari';
+  return 'other';
+};
+
+const PERMISSION_STEPS: Record<BrowserName, string[]> = {
+  chrome: [
+    'Click the icon at the left of the address bar',
+    'Switch Microphone on, or open Site settings and set Microphone to Allow',
+    'Select Try again below'
+  ],
+  edge: [
+    'Click the lock icon at the left of the address bar',
+    'Open Permissions for this site and set Microphone to Allow',
+    'Select Try again below'
+  ],
+  firefox: [
+    'Click the crossed-out microphone icon in the address bar',
+    'Clear the Blocked permission next to Use the microphone',
+    'Select Try again below and choose Allow'
+  ],
+  safari: [
+    'On a Mac, open Safari > Settings for This Website and set Microphone to Allow',
+    'On iPhone or iPad, open Settings > Apps > Safari > Microphone and choose Allow',
+    'Select Try again below'
+  ],
+  other: [
+    'Open the site permissions from your browser\'s address bar',
+    'Allow this site to use the microphone',
+    'Select Try again below'
+  ]
+};
+
+/**
+ * What went wrong opening the microphone and how to fix it
+ */
+const describeMicrophoneError = (errorName: string): { title: string; steps: string[] } => {
+  if (!window.isSecureContext) {
+    return {
+      title: 'Microphones only work on secure pages',
+      steps: ['Open BubbledIn through its https:// address', 'Select Try again below']
+    };
+  }
+
+  switch (errorName) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return { title: 'Microphone access is blocked', steps: PERMISSION_STEPS[detectBrowser()] };
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return {
+        title: 'No microphone found',
+        steps: ['Plug in a headset or microphone', 'Select Try again below']
+      };
+    case 'NotReadableError':
+      return {
+        title: 'Your microphone is busy',
+        steps: ['Close other apps using it, such as video calls or recorders', 'Select Try again below']
+      };
+    default:
+      return {
+        title: 'Could not open your microphone',
+        steps: ['Check that your microphone is connected and working', 'Select Try again below']
+      };
+  }
+};
+
+/**
+ * Pre-join check: microphone level, device choice, a speaker test and an
+ * echo test, so problems show up before entering the bubble
+ */
+export function DeviceCheckLobby({ roomName, displayName, onJoin, onCancel }: DeviceCheckLobbyProps) {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [microphoneError, setMicrophoneError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  // Bumped when the microphone is switched so the meter follows the new track
+  const [trackVersion, setTrackVersion] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [hasHeardVoice, setHasHeardVoice] = useState(false);
+
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const [inputDeviceId, setInputDeviceId] = useState(() => deviceManager.getInputDeviceId());
+  const [outputDeviceId, setOutputDeviceId] = useState(() => deviceManager.getOutputDeviceId());
+
+  const [isPlayingTone, setIsPlayingTone] = useState(false);
+  const [echoTestState, setEchoTestState] = useState<EchoTestState>('idle');
+  const echoAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  const captionsSupported = !!(window.SpeechRecognition || window.webkitSpeechRecognition);
+
+  // Open the microphone, again on every Try again
+  useEffect(() => {
+    let cancelled = false;
+    let acquired: MediaStream | null = null;
+
+    setMicrophoneError(null);
+    microphoneCapture.acquire()
+      .then(microphoneStream => {
+        if (cancelled) {
+          microphoneCapture.release(microphoneStream);
+          return;
+        }
+        acquired = microphoneStream;
+        setStream(microphoneStream);
+        setInputDeviceId(deviceManager.getInputDeviceId());
+      })
+      .catch(error => {
+        console.warn('⚠️ Microphone check failed:', error);
+        if (!cancelled) setMicrophoneError((error as DOMException)?.name || 'Error');
+      });
+
+    return () => {
+      cancelled = true;
+      if (acquired) microphoneCapture.release(acquired);
+      setStream(null);
+    };
+  }, [attempt]);
+
+  // Live level meter
+  useEffect(() => {
+    if (!stream) return;
+
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    const interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) {
+        sum += sample * sample;
+      }
+      const rms = Math.sqrt(sum / samples.length);
+      const decibels = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+      const percent = Math.min(100, Math.max(0, ((decibels - METER_FLOOR) / (METER_CEILING - METER_FLOOR)) * 100));
+      setLevel(percent);
+      if (percent >= HEARD_LEVEL) setHasHeardVoice(true);
+    }, 100);
+
+    return () => {
+      clearInterval(interval);
+      source.disconnect();
+      context.close().catch(() => {
+        // Already closed
+      });
+      setLevel(0);
+    };
+  }, [stream, trackVersion]);
+
+  // Device labels only show up once microphone permission is granted
+  useEffect(() => {
+    const refreshDevices = () => {
+      deviceManager.listDevices().then(setDevices);
+    };
+    refreshDevices();
+    return deviceManager.onDeviceChange(refreshDevices);
+  }, [stream]);
+
+  // Stop a playing echo test when leaving the lobby
+  useEffect(() => {
+    return () => {
+      echoAudioRef.current?.pause();
+    };
+  }, []);
+
+  const changeMicrophone = async (deviceId: string) => {
+    try {
+      await microphoneCapture.switchDevice(deviceId);
+      setInputDeviceId(deviceManager.getInputDeviceId());
+      setTrackVersion(version => version + 1);
+      setHasHeardVoice(false);
+    } catch (error) {
+      console.error('❌ Failed to switch microphone:', error);
+      toast.error('Could not switch to that microphone');
+    }
+  };
+
+  // Remembered for the bubble, where audioMixer plays through it
+  const changeSpeaker = (deviceId: string) => {
+    deviceManager.setOutputDeviceId(deviceId);
+    setOutputDeviceId(deviceId);
+  };
+
+  const playTestTone = async () => {
+    setIsPlayingTone(true);
+    const context: SinkableAudioContext = new AudioContext();
+    try {
+      if (outputDeviceId) await context.setSinkId?.(outputDeviceId);
+
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = TEST_TONE_FREQUENCY;
+      // Fade in and out so the tone does not click
+      gain.gain.setValueAtTime(0, context.currentTime);
+      gain.gain.linearRampToValueAtTime(0.3, context.currentTime + 0.05);
+      gain.gain.linearRampToValueAtTime(0, context.currentTime + TEST_TONE_SECONDS);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start();
+      oscillator.stop(context.currentTime + TEST_TONE_SECONDS);
+      await new Promise(resolve => { oscillator.onended = resolve; });
+    } catch (error) {
+      console.error('❌ Failed to play test tone:', error);
+      toast.error('Could not play the test tone');
+    } finally {
+      context.close().catch(() => {
+        // Already closed
+      });
+      setIsPlayingTone(false);
+    }
+  };
+
+  const runEchoTest = () => {
+    if (!stream) return;
+
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(stream);
+    recorder.ondataavailable = (event) => chunks.push(event.data);
+    recorder.onstop = async () => {
+      const url = URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType }));
+      const audio = new Audio(url) as HTMLAudioElement & { setSinkId?: (sinkId: string) => Promise<void> };
+      echoAudioRef.current = audio;
+      const finish = () => {
+        URL.revokeObjectURL(url);
+        setEchoTestState('idle');
+      };
+      audio.onended = finish;
+
+      try {
+        if (outputDeviceId) await audio.setSinkId?.(outputDeviceId);
+        setEchoTestState('playing');
+        await audio.play();
+      } catch (error) {
+        console.error('❌ Failed to play echo test:', error);
+        toast.error('Could not play back your recording');
+        finish();
+      }
+    };
+
+    setEchoTestState('recording');
+    recorder.start();
+    setTimeout(() => recorder.stop(), ECHO_TEST_SECONDS * 1000);
+  };
+
+  const microphoneProblem = microphoneError ? describeMicrophoneError(microphoneError) : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-indigo-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-6">
+        <div className="text-center space-y-2">
+          <h2 className="text-xl font-semibold text-gray-900">Check your audio</h2>
+          <p className="text-gray-600">
+            Before joining <span className="font-medium">{roomName}</span> as {displayName}
+          </p>
+        </div>
+
+        {/* Microphone */}
+        {microphoneProblem ? (
+          <Alert variant="destructive">
+            <MicOff className="h-4 w-4" aria-hidden="true" />
+            <AlertTitle>{microphoneProblem.title}</AlertTitle>
+            <AlertDescription>
+              <ol className="list-decimal pl-4 space-y-1">
+                {microphoneProblem.steps.map(step => (
+                  <li key={step}>{step}</li>
+                ))}
+              </ol>
+              <p className="mt-1">Or join listen-only to hear everyone and read captions.</p>
+              <Button
+                onClick={() => setAttempt(count => count + 1)}
+                variant="outline"
+                size="sm"
+                className="mt-2 focus-ring"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" aria-hidden="true" />
+                Try again
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center font-medium text-gray-700">
+                <Mic className="h-4 w-4 mr-2 text-gray-600" aria-hidden="true" />
+                Microphone level
+              </span>
+              <span className="text-gray-500" role="status">
+                {!stream ? 'Opening microphone...' : hasHeardVoice ? (
+                  <span className="flex items-center text-green-700">
+                    <Check className="h-4 w-4 mr-1" aria-hidden="true" />
+                    We can hear you
+                  </span>
+                ) : 'Say something'}
+              </span>
+            </div>
+            <Progress value={level} aria-label="Microphone level" />
+          </div>
+        )}
+
+        <DeviceSettings
+          devices={devices}
+          inputDeviceId={inputDeviceId}
+          outputDeviceId={outputDeviceId}
+          showInput={!!stream}
+          canSelectOutput={deviceManager.supportsOutputSelection()}
+          onInputChange={changeMicrophone}
+          onOutputChange={changeSpeaker}
+        />
+
+        {/* Speaker and echo tests */}
+        <div className="grid grid-cols-2 gap-3">
+          <Button
+            onClick={playTestTone}
+            variant="outline"
+            className="rounded-xl focus-ring"
+            disabled={isPlayingTone}
+          >
+            <Volume2 className="h-4 w-4 mr-2" aria-hidden="true" />
+            {isPlayingTone ? 'Playing...' : 'Test speaker'}
+          </Button>
+          <Button
+            onClick={runEchoTest}
+            variant="outline"
+            className="rounded-xl focus-ring"
+            disabled={!stream || echoTestState !== 'idle' || typeof MediaRecorder === 'undefined'}
+          >
+            <Repeat className="h-4 w-4 mr-2" aria-hidden="true" />
+            {echoTestState === 'recording' ? 'Recording...' : echoTestState === 'playing' ? 'Playing back...' : 'Echo test'}
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500" aria-live="polite">
+          {echoTestState === 'recording'
+            ? `Speak now, recording for ${ECHO_TEST_SECONDS} seconds`
+            : echoTestState === 'playing'
+              ? 'Playing back your recording'
+              : `The echo test records ${ECHO_TEST_SECONDS} seconds and plays them back to you.`}
+        </p>
+
+        {/* Captions */}
+        <div className={`flex items-start rounded-xl p-3 text-sm ${captionsSupported ? 'bg-green-50 text-green-800' : 'bg-yellow-50 text-yellow-800'}`}>
+          {captionsSupported ? (
+            <Captions className="h-4 w-4 mr-2 mt-0.5 shrink-0" aria-hidden="true" />
+          ) : (
+            <CaptionsOff className="h-4 w-4 mr-2 mt-0.5 shrink-0" aria-hidden="true" />
+          )}
+          <span>
+            {captionsSupported
+              ? 'Live captions work in this browser.'
+              : 'Live captions are not available in this browser. Use Chrome, Edge or Safari to caption your speech; you can still read everyone else\'s captions.'}
+          </span>
+        </div>
+
+        <div className="flex flex-col space-y-3 sm:flex-row sm:space-y-0 sm:space-x-3">
+          <Button onClick={onCancel} variant="outline" className="w-full h-12 rounded-2xl focus-ring">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onJoin(false)}
+            className="w-full h-12 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white font-medium focus-ring"
+          >
+            <Check className="h-4 w-4 mr-2" aria-hidden="true" />
+            Join Bubble
+          </Button>
+        </div>
+        <Button
+          onClick={() => onJoin(true)}
+          variant="ghost"
+          className="w-full rounded-2xl text-gray-700 focus-ring"
+        >
+          <Headphones className="h-4 w-4 mr-2" aria-hidden="true" />
+          Join listen-only, without a microphone
+        </Button>
+      </div>
+    </div>
+  );
+}
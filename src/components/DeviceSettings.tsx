@@ -0,0 +1,84 @@
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Mic, Speaker } from 'lucide-react';
+import type { AudioDevices } from '../webrtc';
+
+interface DeviceSettingsProps {
+  devices: AudioDevices;
+  inputDeviceId: string;
+  outputDeviceId: string;
+  // Listeners have no microphone to pick
+  showInput: boolean;
+  canSelectOutput: boolean;
+  onInputChange: (deviceId: string) => void;
+  onOutputChange: (deviceId: string) => void;
+}
+
+// Radix Select reserves the empty string, so the system default gets its own value
+const DEFAULT_DEVICE = 'default';
+
+export function DeviceSettings({
+  devices,
+  inputDeviceId,
+  outputDeviceId,
+  showInput,
+  canSelectOutput,
+  onInputChange,
+  onOutputChange
+}: DeviceSettingsProps) {
+  const toDeviceId = (value: string) => value === DEFAULT_DEVICE ? '' : value;
+
+  return (
+    <div className="space-y-4" role="group" aria-labelledby="device-settings-heading">
+      <h3 id="device-settings-heading" className="font-semibold text-sm text-gray-700">Audio Devices</h3>
+
+      {showInput && (
+        <div className="space-y-2">
+          <Label htmlFor="microphone-select" className="flex items-center text-sm">
+            <Mic className="h-4 w-4 mr-2 text-gray-600" aria-hidden="true" />
+            Microphone
+          </Label>
+          <Select value={inputDeviceId || DEFAULT_DEVICE} onValueChange={(value) => onInputChange(toDeviceId(value))}>
+            <SelectTrigger id="microphone-select" className="rounded-xl focus-ring">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+              {devices.inputs.map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Microphone ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="speaker-select" className="flex items-center text-sm">
+          <Speaker className="h-4 w-4 mr-2 text-gray-600" aria-hidden="true" />
+          Speaker
+        </Label>
+        {canSelectOutput ? (
+          <Select value={outputDeviceId || DEFAULT_DEVICE} onValueChange={(value) => onOutputChange(toDeviceId(value))}>
+            <SelectTrigger id="speaker-select" className="rounded-xl focus-ring">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+              {devices.outputs.map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Speaker ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="text-sm text-gray-500">
+            This browser always plays through the system default speaker.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -132,7 +132,7 @@ export function DisplayNameModal({ isOpen, onConfirm, onCancel }: DisplayNameMod
               ) : (
                 <>
                   <Check className="h-4 w-4 mr-2" />
-                  Join Bubble
+                  Continue
                 </>
               )}
             </Button>
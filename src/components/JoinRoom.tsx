@@ -1,33 +1,34 @@
 import React, { useState } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
-import { ArrowLeft, Camera, Loader2, Scan, Hash } from 'lucide-react';
+import { ArrowLeft, Camera, Loader2, Scan, Hash, Lock } from 'lucide-react';
 import { toast } from 'sonner';
 import { QRCodeScanner } from './QRCodeScanner';
 import { signaling } from '../webrtc/signaling';
+import { RoomAccessError } from '../webrtc/transports';
 
 interface JoinRoomProps {
   onBack: () => void;
   onRoomJoined: (roomData: any) => void;
+  // Room that needs a PIN before it can be joined (e.g. opened from a link)
+  pinRoomId?: string | null;
 }
 
-export function JoinRoom({ onBack, onRoomJoined }: JoinRoomProps) {
+export function JoinRoom({ onBack, onRoomJoined, pinRoomId: initialPinRoomId = null }: JoinRoomProps) {
   const [roomCode, setRoomCode] = useState('');
   const [isJoining, setIsJoining] = useState(false);
   const [activeTab, setActiveTab] = useState<'scan' | 'code'>('scan');
   const [showQRScanner, setShowQRScanner] = useState(false);
+  const [pinRoomId, setPinRoomId] = useState<string | null>(initialPinRoomId);
+  const [pin, setPin] = useState('');
 
-  const joinByCode = async () => {
-    if (!roomCode.trim()) {
-      toast.error('Please enter a room code');
-      return;
-    }
-
-    setIsJoining(true);
-    const roomId = roomCode.toUpperCase();
-    
+  /**
+   * Join a room and move on to the display name page.
+   * Returns false when the join failed, after telling the user why.
+   */
+  const attemptJoin = async (roomId: string, roomPin?: string): Promise<boolean> => {
     try {
-      const roomData = await signaling.joinRoom(roomId, 'Participant');
+      const { room: roomData, admission } = await signaling.joinRoom(roomId, 'Participant', roomPin);
       
       const roomDataForUI = {
         id: roomData.id,
@@ -35,50 +36,143 @@ export function JoinRoom({ onBack, onRoomJoined }: JoinRoomProps) {
         host: false,
         settings: roomData.settings,
         url: roomData.url,
+        awaitingAdmission: admission === 'pending',
       };
 
       // Navigate to display name page
+      setPinRoomId(null);
+      setPin('');
       onRoomJoined(roomDataForUI);
       toast.success(`Room "${roomData.name}" found! Please enter your display name.`);
+      return true;
     } catch (error) {
       console.error('Failed to join room:', error);
-      toast.error(`Room "${roomId}" not found. Check the code or QR code again.`);
-    } finally {
-      setIsJoining(false);
+      if (error instanceof RoomAccessError) {
+        setPin('');
+        switch (error.reason) {
+          case 'pin-required':
+            setPinRoomId(roomId.toUpperCase());
+            toast.info('This bubble is protected. Enter its PIN to join.');
+            break;
+          case 'incorrect-pin':
+            setPinRoomId(roomId.toUpperCase());
+            toast.error('Incorrect PIN. Please try again.');
+            break;
+          case 'locked':
+            setPinRoomId(null);
+            toast.error(`Bubble ${roomId.toUpperCase()} is locked. Ask the host to unlock it.`);
+            break;
+          case 'denied':
+            setPinRoomId(null);
+            toast.error('The host declined your request to join.');
+            break;
+          case 'removed':
+            setPinRoomId(null);
+            toast.error('The host removed you from this bubble.');
+            break;
+        }
+      } else {
+        toast.error(`Room "${roomId}" not found. Check the code or QR code again.`);
+      }
+      return false;
     }
   };
 
+  const joinByCode = async () => {
+    if (!roomCode.trim()) {
+      toast.error('Please enter a room code');
+      return;
+    }
+
+    setIsJoining(true);
+    await attemptJoin(roomCode.toUpperCase());
+    setIsJoining(false);
+  };
+
+  const joinWithPin = async () => {
+    if (!pinRoomId || !pin) return;
+
+    setIsJoining(true);
+    await attemptJoin(pinRoomId, pin);
+    setIsJoining(false);
+  };
+
   const handleQRCodeScanned = async (qrData: string) => {
     console.log('QR Code scanned:', qrData);
 
     const roomMatch = qrData.match(/room=([^&]+)/);
     if (roomMatch) {
       const roomId = roomMatch[1];
-      
-      try {
-        const roomData = await signaling.joinRoom(roomId, 'Participant');
-        
-        const roomDataForUI = {
-          id: roomData.id,
-          name: roomData.name,
-          host: false,
-          settings: roomData.settings,
-          url: roomData.url,
-        };
-
-        // Navigate to display name page
-        onRoomJoined(roomDataForUI);
-        setShowQRScanner(false);
-        toast.success(`Room "${roomData.name}" found! Please enter your display name.`);
-      } catch (error) {
-        console.error('Failed to join room via QR:', error);
-        toast.error(`Room "${roomId}" not found or no longer exists.`);
-      }
+      setShowQRScanner(false);
+      await attemptJoin(roomId);
     } else {
       toast.error('Invalid QR code format');
     }
   };
 
+  if (pinRoomId) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-indigo-50">
+        <div className="px-4 py-6 space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between pt-4">
+            <Button onClick={() => setPinRoomId(null)} variant="ghost" size="sm" className="p-2" aria-label="Back">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-xl font-semibold">Enter PIN</h1>
+            <div className="w-9" />
+          </div>
+
+          <div className="bg-white rounded-3xl p-6 shadow-sm border border-gray-100 space-y-6">
+            <div className="text-center space-y-2">
+              <div className="w-16 h-16 bg-blue-50 rounded-full flex items-center justify-center mx-auto">
+                <Lock className="h-8 w-8 text-blue-600" />
+              </div>
+              <h3 className="text-lg font-semibold">Bubble {pinRoomId} is protected</h3>
+              <p className="text-gray-600">Ask the host for the PIN</p>
+            </div>
+
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                joinWithPin();
+              }}
+            >
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                autoFocus
+                placeholder="PIN"
+                aria-label="Room PIN"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                className="h-14 text-xl text-center tracking-widest font-mono rounded-2xl border-2"
+              />
+
+              <Button
+                type="submit"
+                className="w-full h-12 rounded-2xl"
+                size="lg"
+                disabled={isJoining || pin.length < 4}
+              >
+                {isJoining ? (
+                  <>
+                    <Loader2 className="h-5 w-5 mr-3 animate-spin" />
+                    Checking PIN...
+                  </>
+                ) : (
+                  'Join Audio Bubble'
+                )}
+              </Button>
+            </form>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-indigo-50">
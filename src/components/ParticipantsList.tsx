@@ -1,6 +1,11 @@
+import { useState, useEffect } from 'react';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { Badge } from './ui/badge';
-import { Mic, MicOff, Crown, Volume2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { Mic, MicOff, Crown, Volume2, VolumeX, Hand, Headphones, Radio } from 'lucide-react';
+import { audioMixer } from '../webrtc';
+import { MIXER_CONFIG } from '../webrtc/config';
 
 interface Participant {
   id: string;
@@ -8,13 +13,24 @@ interface Participant {
   isHost: boolean;
   isMuted: boolean;
   isPresenter: boolean;
+  isSpeaking?: boolean;
+  listenOnly?: boolean;
 }
 
 interface ParticipantsListProps {
   participants: Participant[];
+  currentUserId?: string | null;
+  // Participant IDs with a raised hand, in speaking order
+  raisedHands?: string[];
+  // Who holds the push-to-talk floor in one-speaker-at-a-time rooms
+  floorHolderId?: string | null;
+  // Per-participant volume, mute and solo for what we hear
+  showMixer?: boolean;
 }
 
-export function ParticipantsList({ participants }: ParticipantsListProps) {
+export function ParticipantsList({ participants, currentUserId = '1', raisedHands = [], floorHolderId = null, showMixer = false }: ParticipantsListProps) {
+  const getHandPosition = (id: string) => raisedHands.indexOf(id) + 1;
+
   const getInitials = (name: string) => {
     return name.split(' ').map(word => word[0]).join('').toUpperCase();
   };
@@ -28,15 +44,20 @@ export function ParticipantsList({ participants }: ParticipantsListProps) {
       'bg-red-500',
       'bg-teal-500'
     ];
-    return colors[parseInt(id) % colors.length];
+    const hash = Array.from(id).reduce((sum, char) => sum + char.charCodeAt(0), 0);
+    return colors[hash % colors.length];
   };
 
   const getParticipantStatus = (participant: Participant) => {
     const statuses = [];
-    if (participant.id === '1') statuses.push('You');
+    if (participant.id === currentUserId) statuses.push('You');
     if (participant.isHost) statuses.push('Host');
+    if (getHandPosition(participant.id) > 0) statuses.push(`Hand raised, number ${getHandPosition(participant.id)} in line`);
     if (participant.isPresenter) statuses.push('Presenter');
-    if (participant.isMuted) statuses.push('Muted');
+    if (participant.id === floorHolderId) statuses.push('Has the floor');
+    if (participant.isSpeaking && !participant.isMuted) statuses.push('Speaking');
+    if (participant.listenOnly) statuses.push('Listen-only');
+    else if (participant.isMuted) statuses.push('Muted');
     else statuses.push('Unmuted');
     
     return statuses.join(', ');
@@ -47,7 +68,7 @@ export function ParticipantsList({ participants }: ParticipantsListProps) {
       {participants.map((participant) => (
         <div 
           key={participant.id} 
-          className="flex items-center justify-between p-4 bg-gray-50 rounded-2xl focus-within:ring-2 focus-within:ring-blue-500 focus-within:ring-offset-2"
+          className={`flex items-center justify-between p-4 bg-gray-50 rounded-2xl focus-within:ring-2 focus-within:ring-blue-500 focus-within:ring-offset-2 ${showMixer ? 'flex-wrap' : ''}`}
           role="listitem"
           aria-label={`${participant.name} - ${getParticipantStatus(participant)}`}
         >
@@ -78,7 +99,25 @@ export function ParticipantsList({ participants }: ParticipantsListProps) {
                     Presenter
                   </Badge>
                 )}
-                {participant.id === '1' && (
+                {getHandPosition(participant.id) > 0 && (
+                  <Badge className="bg-yellow-100 text-yellow-800 text-xs" aria-label={`Hand raised, number ${getHandPosition(participant.id)} in line`}>
+                    <Hand className="h-3 w-3 mr-1" aria-hidden="true" />
+                    {getHandPosition(participant.id)}
+                  </Badge>
+                )}
+                {participant.id === floorHolderId && (
+                  <Badge className="bg-green-100 text-green-800 text-xs" aria-label="Has the floor">
+                    <Radio className="h-3 w-3 mr-1" aria-hidden="true" />
+                    Talking
+                  </Badge>
+                )}
+                {participant.listenOnly && (
+                  <Badge variant="secondary" className="text-xs" aria-label="Listen-only">
+                    <Headphones className="h-3 w-3 mr-1" aria-hidden="true" />
+                    Listen-only
+                  </Badge>
+                )}
+                {participant.id === currentUserId && (
                   <Badge variant="outline" className="text-xs" aria-label="This is you">
                     You
                   </Badge>
@@ -89,7 +128,7 @@ export function ParticipantsList({ participants }: ParticipantsListProps) {
 
           <div className="flex items-center space-x-3" role="group" aria-label="Audio status">
             {/* Speaking indicator */}
-            {!participant.isMuted && (
+            {participant.isSpeaking && !participant.isMuted && (
               <div 
                 className="flex space-x-1" 
                 role="img" 
@@ -103,32 +142,45 @@ export function ParticipantsList({ participants }: ParticipantsListProps) {
             )}
             
             {/* Mic status */}
-            <div 
-              className={`p-2 rounded-full ${
-                participant.isMuted ? 'bg-red-100' : 'bg-green-100'
-              }`}
-              role="img"
-              aria-label={participant.isMuted ? 'Microphone muted' : 'Microphone active'}
-            >
-              {participant.isMuted ? (
-                <MicOff className="h-4 w-4 text-red-600" aria-hidden="true" />
-              ) : (
-                <Mic className="h-4 w-4 text-green-600" aria-hidden="true" />
-              )}
-            </div>
+            {participant.listenOnly ? (
+              <div className="p-2 rounded-full bg-gray-100" role="img" aria-label="No microphone, listening only">
+                <Headphones className="h-4 w-4 text-gray-600" aria-hidden="true" />
+              </div>
+            ) : (
+              <div 
+                className={`p-2 rounded-full ${
+                  participant.isMuted ? 'bg-red-100' : 'bg-green-100'
+                }`}
+                role="img"
+                aria-label={participant.isMuted ? 'Microphone muted' : 'Microphone active'}
+              >
+                {participant.isMuted ? (
+                  <MicOff className="h-4 w-4 text-red-600" aria-hidden="true" />
+                ) : (
+                  <Mic className="h-4 w-4 text-green-600" aria-hidden="true" />
+                )}
+              </div>
+            )}
           </div>
           
+          {/* Mixer */}
+          {showMixer && participant.id !== currentUserId && (
+            <ParticipantMixer participant={participant} />
+          )}
+
           {/* Screen reader only status summary */}
           <div className="sr-only">
-            {participant.name} is {participant.isMuted ? 'muted' : 'unmuted'}
+            {participant.name} is {participant.listenOnly ? 'listening only' : participant.isMuted ? 'muted' : participant.isSpeaking ? 'speaking' : 'unmuted'}
             {participant.isHost && ', is the host'}
             {participant.isPresenter && ', is in presenter mode'}
-            {participant.id === '1' && ', this is you'}
+            {participant.id === floorHolderId && ', has the floor'}
+            {getHandPosition(participant.id) > 0 && `, has a raised hand, number ${getHandPosition(participant.id)} in line`}
+            {participant.id === currentUserId && ', this is you'}
           </div>
         </div>
       ))}
 
-      {participants.length === 1 && (
+      {participants.length === 1 && raisedHands.length === 0 && !showMixer && (
         <div className="text-center py-8 text-gray-500" role="status" aria-live="polite">
           <div className="space-y-2">
             <p>Waiting for others to join...</p>
@@ -143,4 +195,54 @@ export function ParticipantsList({ participants }: ParticipantsListProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Volume, mute and solo for one remote participant, as we hear them
+ */
+function ParticipantMixer({ participant }: { participant: Participant }) {
+  const [levels, setLevels] = useState(() => audioMixer.getLevels(participant.id));
+
+  useEffect(() => {
+    setLevels(audioMixer.getLevels(participant.id));
+    return audioMixer.subscribe(() => setLevels(audioMixer.getLevels(participant.id)));
+  }, [participant.id]);
+
+  return (
+    <div className="w-full mt-3 flex items-center space-x-3" role="group" aria-label={`Volume for ${participant.name}`}>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => audioMixer.setMuted(participant.id, !levels.muted)}
+        className="focus-ring"
+        aria-pressed={levels.muted}
+        aria-label={levels.muted ? `Unmute ${participant.name} for me` : `Mute ${participant.name} for me`}
+      >
+        {levels.muted ? (
+          <VolumeX className="h-4 w-4 text-red-600" aria-hidden="true" />
+        ) : (
+          <Volume2 className="h-4 w-4" aria-hidden="true" />
+        )}
+      </Button>
+      <Slider
+        className="flex-1"
+        value={[levels.volume]}
+        max={MIXER_CONFIG.maxVolume}
+        step={5}
+        disabled={levels.muted}
+        onValueChange={([volume]) => audioMixer.setVolume(participant.id, volume)}
+      />
+      <span className="text-xs text-gray-500 w-10 text-right" aria-hidden="true">{levels.volume}%</span>
+      <Button
+        variant={levels.soloed ? 'default' : 'outline'}
+        size="sm"
+        onClick={() => audioMixer.setSoloed(participant.id, !levels.soloed)}
+        className="rounded-xl focus-ring"
+        aria-pressed={levels.soloed}
+        aria-label={`Solo ${participant.name}`}
+      >
+        Solo
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect, useRef, type PointerEvent, type KeyboardEvent } from 'react';
+import { Button } from './ui/button';
+import { audioMixer, type Participant, type SpatialPosition } from '../webrtc';
+
+interface RoomMapProps {
+  // Remote participants; you sit in the middle of the map
+  participants: Participant[];
+}
+
+// How far one arrow key press moves an avatar
+const KEYBOARD_STEP = 0.1;
+
+const getInitials = (name: string) => {
+  return name.split(' ').map(word => word[0]).join('').toUpperCase().slice(0, 2);
+};
+
+const describePosition = ({ x, y }: SpatialPosition) => {
+  const side = x < -0.33 ? 'left' : x > 0.33 ? 'right' : '';
+  const depth = y > 0.33 ? 'in front' : y < -0.33 ? 'behind' : '';
+  if (!side && !depth) return 'next to you';
+  return [depth, side && `to the ${side}`].filter(Boolean).join(' and ');
+};
+
+export function RoomMap({ participants }: RoomMapProps) {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  // Re-render when positions change
+  const [, setMixerVersion] = useState(0);
+  useEffect(() => {
+    return audioMixer.subscribe(() => setMixerVersion(version => version + 1));
+  }, []);
+
+  const positionFromPointer = (event: PointerEvent<HTMLElement>): SpatialPosition => {
+    const rect = mapRef.current!.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      y: 1 - ((event.clientY - rect.top) / rect.height) * 2
+    };
+  };
+
+  const handlePointerDown = (participantId: string, event: PointerEvent<HTMLButtonElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraggingId(participantId);
+  };
+
+  const handlePointerMove = (participantId: string, event: PointerEvent<HTMLButtonElement>) => {
+    if (draggingId !== participantId) return;
+    audioMixer.setPosition(participantId, positionFromPointer(event));
+  };
+
+  const handleKeyDown = (participantId: string, event: KeyboardEvent<HTMLButtonElement>) => {
+    const moves: Record<string, SpatialPosition> = {
+      ArrowLeft: { x: -KEYBOARD_STEP, y: 0 },
+      ArrowRight: { x: KEYBOARD_STEP, y: 0 },
+      ArrowUp: { x: 0, y: KEYBOARD_STEP },
+      ArrowDown: { x: 0, y: -KEYBOARD_STEP }
+    };
+    const move = moves[event.key];
+    if (!move) return;
+
+    event.preventDefault();
+    const { x, y } = audioMixer.getPosition(participantId);
+    audioMixer.setPosition(participantId, { x: x + move.x, y: y + move.y });
+  };
+
+  const hasCustomPositions = participants.some(p => audioMixer.hasCustomPosition(p.id));
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={mapRef}
+        className="relative w-full max-w-xs mx-auto aspect-square bg-gray-50 rounded-2xl border border-gray-200 touch-none select-none"
+        role="group"
+        aria-label="Room map. Drag people, or focus them and use the arrow keys, to change where their voice comes from"
+      >
+        {/* You, in the middle */}
+        <div
+          className="absolute w-10 h-10 rounded-full bg-gray-800 text-white text-xs font-semibold flex items-center justify-center"
+          style={{ left: '50%', top: '50%', transform: 'translate(-50%, -50%)' }}
+          aria-hidden="true"
+        >
+          You
+        </div>
+
+        {participants.map((participant) => {
+          const position = audioMixer.getPosition(participant.id);
+          return (
+            <button
+              key={participant.id}
+              type="button"
+              className={`absolute w-10 h-10 rounded-full bg-blue-500 text-white text-xs font-semibold flex items-center justify-center shadow-sm focus-ring ${
+                draggingId === participant.id ? 'cursor-grabbing ring-2 ring-blue-300' : 'cursor-grab'
+              }`}
+              style={{
+                left: `${((position.x + 1) / 2) * 100}%`,
+                top: `${((1 - position.y) / 2) * 100}%`,
+                transform: 'translate(-50%, -50%)'
+              }}
+              onPointerDown={(event) => handlePointerDown(participant.id, event)}
+              onPointerMove={(event) => handlePointerMove(participant.id, event)}
+              onPointerUp={() => setDraggingId(null)}
+              onPointerCancel={() => setDraggingId(null)}
+              onKeyDown={(event) => handleKeyDown(participant.id, event)}
+              aria-label={`${participant.name}, ${describePosition(position)}`}
+            >
+              {getInitials(participant.name)}
+            </button>
+          );
+        })}
+      </div>
+
+      {hasCustomPositions && (
+        <div className="flex justify-center">
+          <Button
+            onClick={() => audioMixer.resetPositions()}
+            variant="ghost"
+            size="sm"
+            className="text-xs focus-ring"
+          >
+            Reset positions
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -36,6 +36,7 @@ export function useStatusAnnouncer() {
   const announceMute = useCallback((isMuted: boolean) => setMessage(isMuted ? 'Microphone muted' : 'Microphone unmuted'), []);
   const announceConnect = useCallback((isConnected: boolean) => setMessage(isConnected ? 'Connected to audio bubble' : 'Disconnected from audio bubble'), []);
   const announcePTT = useCallback((isActive: boolean) => setMessage(isActive ? 'Push to talk active' : 'Push to talk released'), []);
+  const announceSpeaking = useCallback((name: string) => setMessage(`${name} is speaking`), []);
 
   return {
     message,
@@ -44,6 +45,7 @@ export function useStatusAnnouncer() {
     announceLeave,
     announceMute,
     announceConnect,
-    announcePTT
+    announcePTT,
+    announceSpeaking
   };
 }
@@ -2,10 +2,12 @@ import { useState, useEffect, useRef } from 'react';
 import { ScrollArea } from './ui/scroll-area';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Download, Share2, Mic, Sparkles, Loader2 } from 'lucide-react';
+import { Download, Share2, Mic, Sparkles, Loader2, MessageCircle } from 'lucide-react';
 import { toast } from 'sonner';
 import { transcriptionService, TranscriptionEntry } from '../services/transcriptionService';
 import { summaryService, RoomSummary } from '../services/summaryService';
+import { chatService, ChatMessage } from '../services/chatService';
+import { buildConversation, speakerLabel } from '../services/conversation';
 
 interface TranscriptionPanelProps {
   roomId: string;
@@ -31,6 +33,7 @@ export function TranscriptionPanel({
   isPushToTalkPressed = false
 }: TranscriptionPanelProps) {
   const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [currentSpeakers, setCurrentSpeakers] = useState<Set<string>>(new Set());
   const [summary, setSummary] = useState<RoomSummary | null>(null);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
@@ -57,6 +60,14 @@ export function TranscriptionPanel({
     return () => unsubscribe();
   }, [roomId]);
 
+  // Chat messages are shown in line with what was said
+  useEffect(() => {
+    return chatService.onMessages(roomId, setMessages);
+  }, [roomId]);
+
+  // Final transcriptions and chat messages, interleaved by time
+  const conversation = buildConversation(transcriptions, messages);
+
   // Load existing summary if available
   useEffect(() => {
     const loadSummary = async () => {
@@ -78,7 +89,7 @@ export function TranscriptionPanel({
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [transcriptions]);
+  }, [transcriptions, messages]);
 
   const generateSummary = async () => {
     setIsGeneratingSummary(true);
@@ -95,10 +106,8 @@ export function TranscriptionPanel({
   };
 
   const shareTranscript = async () => {
-    const finalTranscriptions = transcriptions.filter(t => t.isFinal);
-    
-    let content = finalTranscriptions
-      .map(t => `[${t.timestamp?.toDate ? new Date(t.timestamp.toDate()).toLocaleTimeString() : 'N/A'}] ${t.userName}: ${t.text}`)
+    let content = conversation
+      .map(line => `[${line.timestamp?.toDate ? new Date(line.timestamp.toDate()).toLocaleTimeString() : 'N/A'}] ${speakerLabel(line)}: ${line.text}`)
       .join('\n\n');
     
     if (summary) {
@@ -128,14 +137,12 @@ export function TranscriptionPanel({
   };
 
   const downloadTranscript = () => {
-    const finalTranscriptions = transcriptions.filter(t => t.isFinal);
-    
     let content = `${roomName} - Audio Bubble Transcript\n`;
     content += `Generated: ${new Date().toLocaleString()}\n`;
     content += `${'='.repeat(50)}\n\n`;
     
-    content += finalTranscriptions
-      .map(t => `[${t.timestamp?.toDate ? new Date(t.timestamp.toDate()).toLocaleTimeString() : 'N/A'}] ${t.userName}:\n${t.text}\n`)
+    content += conversation
+      .map(line => `[${line.timestamp?.toDate ? new Date(line.timestamp.toDate()).toLocaleTimeString() : 'N/A'}] ${speakerLabel(line)}:\n${line.text}\n`)
       .join('\n');
     
     if (summary) {
@@ -205,7 +212,7 @@ export function TranscriptionPanel({
             onClick={generateSummary} 
             variant="outline" 
             size="sm"
-            disabled={transcriptions.filter(t => t.isFinal).length === 0 || isGeneratingSummary}
+            disabled={conversation.length === 0 || isGeneratingSummary}
             className="h-8 text-xs sm:text-sm"
             title="Generate AI summary of the conversation"
           >
@@ -227,7 +234,7 @@ export function TranscriptionPanel({
             onClick={shareTranscript} 
             variant="outline" 
             size="sm"
-            disabled={transcriptions.filter(t => t.isFinal).length === 0}
+            disabled={conversation.length === 0}
             className="h-8 text-xs sm:text-sm"
             title="Share transcript"
           >
@@ -238,7 +245,7 @@ export function TranscriptionPanel({
             onClick={downloadTranscript} 
             variant="outline" 
             size="sm"
-            disabled={transcriptions.filter(t => t.isFinal).length === 0}
+            disabled={conversation.length === 0}
             className="h-8 text-xs sm:text-sm"
             title="Download transcript as text file"
           >
@@ -295,7 +302,7 @@ export function TranscriptionPanel({
           ref={scrollRef}
         >
           <div className="p-3 sm:p-4">
-            {transcriptions.filter(t => t.isFinal).length === 0 ? (
+            {conversation.length === 0 ? (
               <div className="flex items-center justify-center h-24 sm:h-32 text-gray-500">
                 <div className="text-center space-y-2 sm:space-y-3">
                   <div className="w-3 h-3 sm:w-4 sm:h-4 bg-red-500 rounded-full animate-pulse mx-auto" />
@@ -305,29 +312,38 @@ export function TranscriptionPanel({
               </div>
             ) : (
               <div className="space-y-3 sm:space-y-4">
-                {transcriptions.filter(t => t.isFinal).map((transcript) => (
-                  <div key={transcript.id} className="space-y-2">
+                {conversation.map((line) => (
+                  <div key={`${line.kind}-${line.id}`} className="space-y-2">
                     <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 sm:gap-0">
                       <div className="flex items-center space-x-2 flex-wrap">
-                        <span className="font-medium text-xs sm:text-sm">{transcript.userName}</span>
-                        {transcript.userId === userId && (
+                        <span className="font-medium text-xs sm:text-sm">{line.userName}</span>
+                        {line.userId === userId && (
                           <Badge variant="secondary" className="text-xs bg-blue-100 text-blue-800">You</Badge>
                         )}
-                        <Badge 
-                          variant="secondary" 
-                          className={`text-xs ${getConfidenceColor(transcript.confidence)}`}
-                        >
-                          {Math.round(transcript.confidence * 100)}%
-                        </Badge>
+                        {line.kind === 'chat' ? (
+                          <Badge variant="secondary" className="text-xs bg-purple-100 text-purple-800">
+                            <MessageCircle className="h-3 w-3 mr-1" aria-hidden="true" />
+                            Chat
+                          </Badge>
+                        ) : (
+                          <Badge 
+                            variant="secondary" 
+                            className={`text-xs ${getConfidenceColor(line.confidence ?? 0)}`}
+                          >
+                            {Math.round((line.confidence ?? 0) * 100)}%
+                          </Badge>
+                        )}
                       </div>
                       <span className="text-xs text-gray-500">
-                        {transcript.timestamp?.toDate 
-                          ? new Date(transcript.timestamp.toDate()).toLocaleTimeString() 
+                        {line.timestamp?.toDate 
+                          ? new Date(line.timestamp.toDate()).toLocaleTimeString() 
                           : 'N/A'}
                       </span>
                     </div>
-                    <div className="bg-white p-2 sm:p-3 rounded-xl border-l-4 border-blue-200 shadow-sm">
-                      <p className="text-xs sm:text-sm leading-relaxed break-words">{transcript.text}</p>
+                    <div className={`bg-white p-2 sm:p-3 rounded-xl border-l-4 shadow-sm ${
+                      line.kind === 'chat' ? 'border-purple-200' : 'border-blue-200'
+                    }`}>
+                      <p className="text-xs sm:text-sm leading-relaxed break-words">{line.text}</p>
                     </div>
                   </div>
                 ))}
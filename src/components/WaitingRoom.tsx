@@ -0,0 +1,61 @@
+import React, { useEffect } from 'react';
+import { Button } from './ui/button';
+import { Loader2, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { signaling } from '../webrtc/signaling';
+
+interface WaitingRoomProps {
+  roomName: string;
+  displayName: string;
+  onAdmitted: () => void;
+  onLeave: () => void;
+}
+
+export function WaitingRoom({ roomName, displayName, onAdmitted, onLeave }: WaitingRoomProps) {
+  // Wait for the host's decision; the join is completed before onAdmitted runs
+  useEffect(() => {
+    const unsubscribe = signaling.onAdmission((result) => {
+      if (result === 'admitted') {
+        toast.success(`You've been admitted to "${roomName}"`);
+        onAdmitted();
+      } else {
+        toast.error('The host declined your request to join');
+        onLeave();
+      }
+    });
+
+    return unsubscribe;
+  }, []);
+
+  const cancel = async () => {
+    await signaling.leaveRoom();
+    onLeave();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-blue-50 via-white to-indigo-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-3xl p-6 shadow-sm border border-gray-100 text-center space-y-6">
+        <div className="w-20 h-20 bg-blue-50 rounded-full flex items-center justify-center mx-auto">
+          <Clock className="h-10 w-10 text-blue-600" aria-hidden="true" />
+        </div>
+
+        <div className="space-y-2">
+          <h2 className="text-xl font-semibold text-gray-900">Waiting to be admitted</h2>
+          <p className="text-gray-600">
+            The host of <span className="font-medium">{roomName}</span> will let you in shortly.
+          </p>
+          <p className="text-sm text-gray-500">You'll join as {displayName}</p>
+        </div>
+
+        <div className="flex items-center justify-center text-blue-600" role="status" aria-live="polite">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" aria-hidden="true" />
+          <span className="text-sm font-medium">Waiting for the host...</span>
+        </div>
+
+        <Button onClick={cancel} variant="outline" className="w-full h-12 rounded-2xl">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,14 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
 import { peerManager } from '../webrtc/peer';
+import { callStats, type CallQualitySample } from '../webrtc/stats';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from './ui/chart';
+import { WifiSignal } from './ui/wifi-signal';
 import { Wifi, WifiOff, Users, Mic, MicOff } from 'lucide-react';
 
 interface ConnectionInfo {
@@ -15,11 +19,23 @@ interface ConnectionInfo {
   connectionState: RTCPeerConnectionState;
   iceConnectionState: RTCIceConnectionState;
   hasAudio: boolean;
+  quality?: CallQualitySample;
 }
 
+const chartConfig = {
+  mos: { label: 'MOS', color: '#22c55e' },
+  roundTripTime: { label: 'RTT (ms)', color: '#3b82f6' },
+  packetLoss: { label: 'Loss (%)', color: '#ef4444' }
+} satisfies ChartConfig;
+
+const formatNumber = (value: number | undefined, digits = 0) =>
+  value === undefined ? '–' : value.toFixed(digits);
+
 export function WebRTCDebugger() {
   const [connections, setConnections] = useState<ConnectionInfo[]>([]);
   const [isVisible, setIsVisible] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<CallQualitySample[]>([]);
 
   useEffect(() => {
     const updateConnections = () => {
@@ -31,7 +47,8 @@ export function WebRTCDebugger() {
           participantId,
           connectionState: peerConnection.peer.connectionState,
           iceConnectionState: peerConnection.peer.iceConnectionState,
-          hasAudio: !!peerConnection.stream
+          hasAudio: !!peerConnection.stream,
+          quality: callStats.getLatest(participantId)
         });
       });
 
@@ -47,6 +64,28 @@ export function WebRTCDebugger() {
     return () => clearInterval(interval);
   }, []);
 
+  // Chart the picked connection, or the first one
+  const chartedId = selectedId && connections.some(conn => conn.participantId === selectedId)
+    ? selectedId
+    : connections[0]?.participantId;
+
+  useEffect(() => {
+    if (!isVisible || !chartedId) {
+      setHistory([]);
+      return;
+    }
+
+    setHistory(callStats.getHistory(chartedId));
+    return callStats.subscribe(() => setHistory(callStats.getHistory(chartedId)));
+  }, [isVisible, chartedId]);
+
+  const chartData = history.map(sample => ({
+    time: new Date(sample.timestamp).toLocaleTimeString([], { minute: '2-digit', second: '2-digit' }),
+    mos: Number(sample.mos.toFixed(2)),
+    roundTripTime: sample.roundTripTime === undefined ? null : Math.round(sample.roundTripTime),
+    packetLoss: Number(sample.packetLoss.toFixed(1))
+  }));
+
   const getConnectionStatusColor = (state: RTCPeerConnectionState) => {
     switch (state) {
       case 'connected': return 'bg-green-500';
@@ -108,38 +147,75 @@ export function WebRTCDebugger() {
             </div>
           ) : (
             connections.map((conn) => (
-              <div key={conn.participantId} className="flex items-center justify-between text-xs">
-                <div className="flex items-center space-x-2">
-                  <div className={`w-2 h-2 rounded-full ${getConnectionStatusColor(conn.connectionState)}`} />
-                  <span className="font-mono text-xs">
-                    {conn.participantId.substring(0, 8)}...
-                  </span>
-                </div>
-                
-                <div className="flex items-center space-x-1">
-                  <Badge 
-                    variant="outline" 
-                    className={`text-xs px-1 py-0 ${getConnectionStatusColor(conn.connectionState)} text-white`}
-                  >
-                    {conn.connectionState}
-                  </Badge>
-                  
-                  <Badge 
-                    variant="outline" 
-                    className={`text-xs px-1 py-0 ${getIceStatusColor(conn.iceConnectionState)} text-white`}
+              <div key={conn.participantId} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(conn.participantId)}
+                    className={`flex items-center space-x-2 rounded focus-ring ${conn.participantId === chartedId ? 'font-semibold' : ''}`}
+                    aria-pressed={conn.participantId === chartedId}
+                    aria-label={`Chart connection ${conn.participantId.substring(0, 8)}`}
                   >
-                    {conn.iceConnectionState}
-                  </Badge>
+                    <div className={`w-2 h-2 rounded-full ${getConnectionStatusColor(conn.connectionState)}`} />
+                    <span className="font-mono text-xs">
+                      {conn.participantId.substring(0, 8)}...
+                    </span>
+                  </button>
                   
-                  {conn.hasAudio ? (
-                    <Mic className="h-3 w-3 text-green-500" />
-                  ) : (
-                    <MicOff className="h-3 w-3 text-gray-400" />
-                  )}
+                  <div className="flex items-center space-x-1">
+                    <Badge 
+                      variant="outline" 
+                      className={`text-xs px-1 py-0 ${getConnectionStatusColor(conn.connectionState)} text-white`}
+                    >
+                      {conn.connectionState}
+                    </Badge>
+                    
+                    <Badge 
+                      variant="outline" 
+                      className={`text-xs px-1 py-0 ${getIceStatusColor(conn.iceConnectionState)} text-white`}
+                    >
+                      {conn.iceConnectionState}
+                    </Badge>
+                    
+                    {conn.hasAudio ? (
+                      <Mic className="h-3 w-3 text-green-500" />
+                    ) : (
+                      <MicOff className="h-3 w-3 text-gray-400" />
+                    )}
+                  </div>
                 </div>
+
+                {conn.quality && (
+                  <div className="flex items-center justify-between text-[10px] text-gray-600 font-mono">
+                    <span>
+                      {conn.quality.candidateType} · RTT {formatNumber(conn.quality.roundTripTime)}ms · jitter {formatNumber(conn.quality.jitter)}ms · loss {formatNumber(conn.quality.packetLoss, 1)}%
+                    </span>
+                    <WifiSignal strength={conn.quality.strength} className="scale-75" />
+                  </div>
+                )}
+                {conn.quality && (
+                  <div className="text-[10px] text-gray-600 font-mono">
+                    ↓{formatNumber(conn.quality.inboundBitrate)}kbps ↑{formatNumber(conn.quality.outboundBitrate)}kbps · concealed {conn.quality.concealedSamples} · MOS {formatNumber(conn.quality.mos, 2)}
+                  </div>
+                )}
               </div>
             ))
           )}
+
+          {chartData.length > 1 && (
+            <ChartContainer config={chartConfig} className="h-32 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis yAxisId="mos" domain={[1, 4.5]} tickLine={false} axisLine={false} />
+                <YAxis yAxisId="network" orientation="right" hide />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line yAxisId="mos" dataKey="mos" stroke="var(--color-mos)" dot={false} isAnimationActive={false} />
+                <Line yAxisId="network" dataKey="roundTripTime" stroke="var(--color-roundTripTime)" dot={false} isAnimationActive={false} connectNulls />
+                <Line yAxisId="network" dataKey="packetLoss" stroke="var(--color-packetLoss)" dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
         </div>
       </CardContent>
     </Card>
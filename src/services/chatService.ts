@@ -0,0 +1,84 @@
+/**
+ * In-Room Text Chat Service
+ * Typed messages for participants who can't or don't want to speak
+ * Messages are stored per room in Firestore and synced to all room members
+ */
+
+import { collection, addDoc, serverTimestamp, query, orderBy, onSnapshot, getDocs } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { authService } from '../firebase/auth';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+
+export interface ChatMessage {
+  id?: string;
+  roomId: string;
+  userId: string;
+  userName: string;
+  text: string;
+  timestamp: any;
+}
+
+class ChatService {
+  /**
+   * Send a message to everyone in the room
+   */
+  async sendMessage(roomId: string, userName: string, text: string): Promise<void> {
+    const userId = authService.getCurrentUserId();
+    const trimmed = text.trim();
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+    if (!trimmed) return;
+    if (trimmed.length > MAX_CHAT_MESSAGE_LENGTH) {
+      throw new Error(`Messages can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+    }
+
+    try {
+      const messagesRef = collection(db, 'rooms', roomId, 'messages');
+      await addDoc(messagesRef, {
+        roomId,
+        userId,
+        userName,
+        text: trimmed,
+        timestamp: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('❌ Failed to send chat message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Listen to the room's messages, oldest first (real-time sync)
+   */
+  onMessages(roomId: string, callback: (messages: ChatMessage[]) => void): () => void {
+    const messagesRef = collection(db, 'rooms', roomId, 'messages');
+    const q = query(messagesRef, orderBy('timestamp', 'asc'));
+
+    return onSnapshot(q,
+      (snapshot) => {
+        // Estimate the server timestamp so a message we just sent sorts into place
+        const messages = snapshot.docs.map(doc => ({
+          id: doc.id,
+          ...doc.data({ serverTimestamps: 'estimate' })
+        })) as ChatMessage[];
+
+        callback(messages);
+      },
+      (error) => {
+        console.error('❌ Error listening to chat messages:', error);
+      }
+    );
+  }
+
+  /**
+   * Fetch every message sent in a room
+   */
+  async getMessages(roomId: string): Promise<ChatMessage[]> {
+    const snapshot = await getDocs(collection(db, 'rooms', roomId, 'messages'));
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as ChatMessage[];
+  }
+}
+
+export const chatService = new ChatService();
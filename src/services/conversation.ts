@@ -0,0 +1,64 @@
+/**
+ * Conversation Timeline
+ * Interleaves final transcriptions and chat messages by timestamp, for the
+ * captions view, transcript exports and AI summaries
+ */
+
+import type { TranscriptionEntry } from './transcriptionService';
+import type { ChatMessage } from './chatService';
+
+export interface ConversationLine {
+  id: string;
+  kind: 'speech' | 'chat';
+  userId: string;
+  userName: string;
+  text: string;
+  timestamp: any;
+  // Speech recognition confidence, speech lines only
+  confidence?: number;
+}
+
+/**
+ * Milliseconds for a Firestore Timestamp; entries still waiting for their
+ * server timestamp sort last
+ */
+function timeOf(line: ConversationLine): number {
+  return line.timestamp?.toDate ? line.timestamp.toDate().getTime() : Number.POSITIVE_INFINITY;
+}
+
+export function buildConversation(transcriptions: TranscriptionEntry[], messages: ChatMessage[]): ConversationLine[] {
+  const speech: ConversationLine[] = transcriptions
+    .filter(t => t.isFinal)
+    .map((t, index) => ({
+      id: t.id || `speech-${index}`,
+      kind: 'speech',
+      userId: t.userId,
+      userName: t.userName,
+      text: t.text,
+      timestamp: t.timestamp,
+      confidence: t.confidence
+    }));
+
+  const chat: ConversationLine[] = messages.map((m, index) => ({
+    id: m.id || `chat-${index}`,
+    kind: 'chat',
+    userId: m.userId,
+    userName: m.userName,
+    text: m.text,
+    timestamp: m.timestamp
+  }));
+
+  // Array.prototype.sort is stable, so lines with equal times keep their source order
+  return [...speech, ...chat].sort((a, b) => {
+    const diff = timeOf(a) - timeOf(b);
+    // Two pending entries compare as Infinity - Infinity
+    return Number.isNaN(diff) ? 0 : diff;
+  });
+}
+
+/**
+ * "Name" for spoken lines, "Name (chat)" for typed ones
+ */
+export function speakerLabel(line: ConversationLine): string {
+  return line.kind === 'chat' ? `${line.userName} (chat)` : line.userName;
+}
@@ -7,6 +7,8 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import { collection, getDocs, doc, setDoc, getDoc } from 'firebase/firestore';
 import { db } from '../firebase/config';
 import { TranscriptionEntry } from './transcriptionService';
+import { chatService } from './chatService';
+import { buildConversation, speakerLabel } from './conversation';
 
 export interface RoomSummary {
   roomId: string;
@@ -44,28 +46,31 @@ class SummaryService {
     try {
       console.log('🤖 Generating AI summary for room:', roomId);
 
-      // 1. Fetch all transcriptions
+      // 1. Fetch all transcriptions and chat messages
       const transcriptionsRef = collection(db, 'rooms', roomId, 'transcriptions');
       const snapshot = await getDocs(transcriptionsRef);
       
       const transcriptions = snapshot.docs.map(doc => doc.data()) as TranscriptionEntry[];
+      const messages = await chatService.getMessages(roomId);
+
+      // Spoken and typed lines in the order they happened (only final transcriptions)
+      const lines = buildConversation(transcriptions, messages);
       
-      if (transcriptions.length === 0) {
-        throw new Error('No transcriptions found for this room. Make sure people have been speaking.');
+      if (lines.length === 0) {
+        throw new Error('No transcriptions or chat messages found for this room. Make sure people have been speaking or chatting.');
       }
 
       // 2. Format conversation for Gemini
-      const conversation = transcriptions
-        .filter(t => t.isFinal) // Only include final transcriptions
-        .map(t => `${t.userName}: ${t.text}`)
+      const conversation = lines
+        .map(line => `${speakerLabel(line)}: ${line.text}`)
         .join('\n');
 
       // 3. Get unique participants
-      const participants = [...new Set(transcriptions.map(t => t.userName))];
+      const participants = [...new Set(lines.map(line => line.userName))];
 
       // 4. Calculate duration
-      const timestamps = transcriptions
-        .map(t => t.timestamp?.toDate())
+      const timestamps = lines
+        .map(line => line.timestamp?.toDate())
         .filter(t => t);
       
       const startTime = timestamps[0];
@@ -77,6 +82,7 @@ class SummaryService {
       
       const prompt = `
 Analyze this conversation from an audio conference room and provide a comprehensive summary.
+Lines marked "(chat)" were typed in the room's text chat rather than spoken.
 
 Conversation:
 ${conversation}
@@ -115,7 +121,7 @@ If there are no action items, use an empty array. Keep the summary concise and f
         actionItems: parsedResponse.actionItems,
         participants,
         duration,
-        totalMessages: transcriptions.filter(t => t.isFinal).length,
+        totalMessages: lines.length,
         generatedAt: new Date()
       };
 
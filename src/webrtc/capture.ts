@@ -0,0 +1,138 @@
+/**
+ * Microphone Capture
+ * Owns the one getUserMedia stream for the microphone. Consumers (peer
+ * connections, captions, voice activity) each get a clone of its track, so
+ * the device is opened once and mute or push-to-talk reaches every clone at
+ * the same time. The device is released when the last clone is.
+ */
+
+import { deviceManager } from './devices';
+
+class MicrophoneCapture {
+  private source?: MediaStream;
+  private opening?: Promise<MediaStream>;
+  // Each clone handed out and the consumer stream it lives in
+  private consumers: Map<MediaStreamTrack, MediaStream> = new Map();
+  private muted = false;
+
+  /**
+   * A new stream with a clone of the microphone track, opening the chosen
+   * device first if nobody holds it yet. Release it when done.
+   */
+  async acquire(): Promise<MediaStream> {
+    const source = await this.openSource();
+    const track = this.cloneTrack(source);
+    const stream = new MediaStream([track]);
+    this.consumers.set(track, stream);
+    return stream;
+  }
+
+  /**
+   * Stop the clones in a consumer's stream; the device closes with the last one
+   */
+  release(stream: MediaStream): void {
+    stream.getAudioTracks().forEach(track => {
+      if (!this.consumers.has(track)) return;
+      track.stop();
+      this.consumers.delete(track);
+    });
+    if (this.consumers.size === 0) this.stopSource();
+  }
+
+  /**
+   * Whether the microphone is open
+   */
+  isActive(): boolean {
+    return !!this.source;
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  /**
+   * Mute or unmute every consumer at once, including ones acquired later
+   */
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    this.consumers.forEach((_, track) => {
+      track.enabled = !muted;
+    });
+  }
+
+  /**
+   * Move every consumer to another microphone ('' for the default). Each
+   * consumer's stream keeps its identity and gets the new clone in place of
+   * the old one; returns the old → new track pairs so senders can follow.
+   */
+  async switchDevice(deviceId: string): Promise<Map<MediaStreamTrack, MediaStreamTrack>> {
+    deviceManager.setInputDeviceId(deviceId);
+    const replaced = new Map<MediaStreamTrack, MediaStreamTrack>();
+    // Without consumers the next acquire picks the device up
+    if (!this.source) return replaced;
+
+    const oldSource = this.source;
+    this.source = await this.openMicrophone(deviceId);
+
+    const consumers = new Map<MediaStreamTrack, MediaStream>();
+    this.consumers.forEach((stream, oldTrack) => {
+      const newTrack = this.cloneTrack(this.source!);
+      stream.removeTrack(oldTrack);
+      stream.addTrack(newTrack);
+      consumers.set(newTrack, stream);
+      replaced.set(oldTrack, newTrack);
+    });
+    this.consumers = consumers;
+
+    oldSource.getTracks().forEach(track => track.stop());
+    replaced.forEach((_, oldTrack) => oldTrack.stop());
+    return replaced;
+  }
+
+  private async openSource(): Promise<MediaStream> {
+    if (this.source) return this.source;
+
+    // Concurrent acquires share one getUserMedia call
+    this.opening ??= this.openMicrophone(deviceManager.getInputDeviceId())
+      .then(source => {
+        this.source = source;
+        return source;
+      })
+      .finally(() => {
+        this.opening = undefined;
+      });
+    return this.opening;
+  }
+
+  private cloneTrack(source: MediaStream): MediaStreamTrack {
+    const track = source.getAudioTracks()[0].clone();
+    track.enabled = !this.muted;
+    return track;
+  }
+
+  private stopSource(): void {
+    this.source?.getTracks().forEach(track => track.stop());
+    this.source = undefined;
+  }
+
+  /**
+   * getUserMedia for a microphone, falling back to the default one when the
+   * chosen device is gone
+   */
+  private async openMicrophone(deviceId: string): Promise<MediaStream> {
+    try {
+      return await navigator.mediaDevices.getUserMedia(deviceManager.getMediaConstraints(deviceId));
+    } catch (error) {
+      const name = (error as DOMException)?.name;
+      if (!deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) {
+        throw error;
+      }
+      console.warn('🎤 Chosen microphone is unavailable, using the default:', error);
+      deviceManager.setInputDeviceId('');
+      return navigator.mediaDevices.getUserMedia(deviceManager.getMediaConstraints(''));
+    }
+  }
+}
+
+// Export singleton instance
+export const microphoneCapture = new MicrophoneCapture();
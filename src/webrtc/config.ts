@@ -3,6 +3,9 @@
  * Centralized configuration for WebRTC peer connections
  */
 
+import type { SignalingTransportType } from './transports/types';
+import type { AudioProfile } from './signaling';
+
 export const WEBRTC_CONFIG: RTCConfiguration = {
   iceServers: [
     // Primary STUN servers (Google - most reliable and widely available)
@@ -47,11 +50,92 @@ export const WEBRTC_CONFIG: RTCConfiguration = {
 
 export const CONNECTION_CONFIG = {
   maxRetryAttempts: 3,
-  retryDelay: 2000, // 2 seconds
+  retryDelay: 2000, // 2 seconds, doubled on every recovery attempt
+  maxRetryDelay: 30000, // 30 seconds
+  disconnectGracePeriod: 5000, // 5 seconds before a disconnected peer gets an ICE restart
   connectionTimeout: 30000, // 30 seconds
   iceGatheringTimeout: 10000 // 10 seconds
 };
 
+export const PRESENCE_CONFIG = {
+  heartbeatInterval: 15000, // 15 seconds between lastSeen writes
+  staleAfter: 45000 // 45 seconds without a heartbeat hides and prunes a participant; firestore.rules repeats this for the delete rule, keep them equal
+};
+
+export const DATA_CHANNEL_CONFIG = {
+  label: 'bubble',
+  id: 0, // Pre-negotiated stream ID, the same on both sides of every connection
+  maxQueuedMessages: 100 // Per participant while the channel is not open; oldest dropped first
+};
+
+export const MIXER_CONFIG = {
+  storageKey: 'bubbledin-mixer-levels', // localStorage key for master and per-participant levels
+  defaultVolume: 100, // Percent
+  maxVolume: 200, // Percent; above 100 boosts quiet speakers
+  spatialSpread: 60, // Degrees either side of center for automatic positions
+  hrtfDistance: 2 // Meters from the listener at the edge of the room map
+};
+
+export const DEVICE_CONFIG = {
+  storageKey: 'bubbledin-audio-devices' // localStorage key for the chosen microphone and speaker
+};
+
+export const VAD_CONFIG = {
+  pollInterval: 100, // Milliseconds between level checks
+  startThreshold: -45, // dBFS the local mic must exceed to start speaking
+  stopThreshold: -55, // dBFS it must fall below to stop (hysteresis)
+  remoteStartLevel: 0.04, // getStats audioLevel (0..1) for remote speakers
+  remoteStopLevel: 0.02,
+  attackTime: 150, // Milliseconds above the start threshold before speaking starts
+  releaseTime: 1000, // Milliseconds below the stop threshold before it ends; keeps isSpeaking writes rare
+  announceCooldown: 5000 // Milliseconds between "X is speaking" announcements
+};
+
+export const PTT_CONFIG = {
+  storageKey: 'bubbledin-ptt-settings', // localStorage key prefix; settings are kept per signed-in user
+  defaultReleaseTail: 250, // Milliseconds the mic stays open after release so trailing syllables get through
+  maxReleaseTail: 1000,
+  gamepadPollInterval: 50 // Milliseconds between gamepad button checks while a gamepad is bound
+};
+
+export const FLOOR_CONFIG = {
+  maxHoldTime: 30000, // Milliseconds one push-to-talk turn may last before the floor is released
+  busyToneFrequency: 480, // Hz of the "channel busy" beeps
+  busyToneBeeps: 3,
+  busyToneBeepLength: 0.12 // Seconds per beep, with the same gap between beeps
+};
+
+export const STATS_CONFIG = {
+  pollInterval: 2000, // Milliseconds between getStats samples per peer
+  historyLength: 60, // Samples kept per peer for the debugger chart (2 minutes)
+  excellentMos: 4.0, // MOS at or above which the signal shows as excellent
+  goodMos: 3.6,
+  fairMos: 3.1 // Below this it shows as poor
+};
+
+export interface OpusSettings {
+  maxBitrate?: number; // Bits per second; unset leaves the browser default
+  dtx: boolean; // Discontinuous transmission: send almost nothing during silence
+  fec: boolean; // In-band forward error correction against packet loss
+  stereo: boolean;
+  ptime: number; // Milliseconds of audio per packet; longer means less overhead
+}
+
+export const AUDIO_PROFILES: Record<AudioProfile, OpusSettings> = {
+  // Browser defaults for speech
+  standard: { dtx: false, fec: true, stereo: false, ptime: 20 },
+  // Bad venue Wi-Fi: fewer, smaller packets that survive loss
+  'low-bandwidth': { maxBitrate: 16000, dtx: true, fec: true, stereo: false, ptime: 60 },
+  // Music and lectures
+  'high-fidelity': { maxBitrate: 128000, dtx: false, fec: true, stereo: true, ptime: 20 }
+};
+
+export const SIGNALING_CONFIG = {
+  // Backend used for rooms and offer/answer/ICE exchange: 'firestore' | 'socket' | 'memory'
+  transport: (import.meta.env.VITE_SIGNALING_TRANSPORT || 'firestore') as SignalingTransportType,
+  requestTimeout: 10000 // 10 seconds to wait for socket.io acknowledgements
+};
+
 export const MEDIA_CONSTRAINTS: MediaStreamConstraints = {
   audio: {
     echoCancellation: true,
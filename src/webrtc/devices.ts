@@ -0,0 +1,114 @@
+/**
+ * Audio Device Selection
+ * Lists microphones and speakers and remembers which ones the user picked.
+ * An empty device ID means the system default.
+ */
+
+import { DEVICE_CONFIG, MEDIA_CONSTRAINTS } from './config';
+
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+interface StoredDevices {
+  inputDeviceId: string;
+  outputDeviceId: string;
+}
+
+class DeviceManager {
+  private selected: StoredDevices = this.load();
+
+  /**
+   * Microphones and speakers. Labels stay empty until microphone permission is granted.
+   */
+  async listDevices(): Promise<AudioDevices> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return { inputs: [], outputs: [] };
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    // Skip the 'default' and 'communications' aliases, the empty ID stands for them
+    const real = devices.filter(device => device.deviceId && device.deviceId !== 'default' && device.deviceId !== 'communications');
+    return {
+      inputs: real.filter(device => device.kind === 'audioinput'),
+      outputs: real.filter(device => device.kind === 'audiooutput')
+    };
+  }
+
+  /**
+   * Whether the browser can route playback to a chosen speaker (setSinkId)
+   */
+  supportsOutputSelection(): boolean {
+    // Where Web Audio exists, remote audio plays through audioMixer's AudioContext
+    if (typeof AudioContext !== 'undefined') {
+      return 'setSinkId' in AudioContext.prototype;
+    }
+    return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+  }
+
+  getInputDeviceId(): string {
+    return this.selected.inputDeviceId;
+  }
+
+  getOutputDeviceId(): string {
+    return this.selected.outputDeviceId;
+  }
+
+  setInputDeviceId(deviceId: string): void {
+    this.selected.inputDeviceId = deviceId;
+    this.save();
+  }
+
+  setOutputDeviceId(deviceId: string): void {
+    this.selected.outputDeviceId = deviceId;
+    this.save();
+  }
+
+  /**
+   * MEDIA_CONSTRAINTS for a microphone, the chosen one by default
+   */
+  getMediaConstraints(deviceId = this.selected.inputDeviceId): MediaStreamConstraints {
+    if (!deviceId) return MEDIA_CONSTRAINTS;
+    return {
+      audio: { ...(MEDIA_CONSTRAINTS.audio as MediaTrackConstraints), deviceId: { exact: deviceId } }
+    };
+  }
+
+  /**
+   * Listen for devices being plugged in or removed
+   */
+  onDeviceChange(callback: () => void): () => void {
+    if (!navigator.mediaDevices) return () => {};
+
+    navigator.mediaDevices.addEventListener('devicechange', callback);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', callback);
+  }
+
+  private load(): StoredDevices {
+    try {
+      const stored = localStorage.getItem(DEVICE_CONFIG.storageKey);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        return {
+          inputDeviceId: typeof parsed.inputDeviceId === 'string' ? parsed.inputDeviceId : '',
+          outputDeviceId: typeof parsed.outputDeviceId === 'string' ? parsed.outputDeviceId : ''
+        };
+      }
+    } catch (error) {
+      console.warn('Failed to load audio devices:', error);
+    }
+    return { inputDeviceId: '', outputDeviceId: '' };
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(DEVICE_CONFIG.storageKey, JSON.stringify(this.selected));
+    } catch (error) {
+      console.warn('Failed to save audio devices:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const deviceManager = new DeviceManager();
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { canClaimFloor, getFloorHolder } from './floor';
+
+const NOW = 1_700_000_000_000;
+
+describe('getFloorHolder', () => {
+  it('names the holder of an unexpired grant', () => {
+    expect(getFloorHolder({ holderId: 'alice', expiresAt: NOW + 1 }, NOW)).toBe('alice');
+  });
+
+  it('frees the floor once the grant expires', () => {
+    expect(getFloorHolder({ holderId: 'alice', expiresAt: NOW }, NOW)).toBeNull();
+    expect(getFloorHolder({ holderId: 'alice', expiresAt: NOW - 1 }, NOW)).toBeNull();
+  });
+
+  it('has no holder without a grant', () => {
+    expect(getFloorHolder(null, NOW)).toBeNull();
+    expect(getFloorHolder(undefined, NOW)).toBeNull();
+  });
+});
+
+describe('canClaimFloor', () => {
+  it('grants a free floor', () => {
+    expect(canClaimFloor(null, 'bob', NOW)).toBe(true);
+  });
+
+  it('refuses while someone else holds it', () => {
+    expect(canClaimFloor({ holderId: 'alice', expiresAt: NOW + 1000 }, 'bob', NOW)).toBe(false);
+  });
+
+  it('lets the holder extend their own grant', () => {
+    expect(canClaimFloor({ holderId: 'alice', expiresAt: NOW + 1000 }, 'alice', NOW)).toBe(true);
+  });
+
+  it('grants a floor whose holder let the grant expire', () => {
+    expect(canClaimFloor({ holderId: 'alice', expiresAt: NOW - 1 }, 'bob', NOW)).toBe(true);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Push-to-talk Floor
+ * Who may speak while a room's settings.exclusiveFloor is on. Every
+ * transport and the UI read the room's FloorGrant through these rules.
+ */
+
+import type { FloorGrant } from './signaling';
+
+/**
+ * The current holder of the floor, or null when it is free or the grant expired
+ */
+export function getFloorHolder(floor: FloorGrant | null | undefined, now: number = Date.now()): string | null {
+  if (!floor || floor.expiresAt <= now) return null;
+  return floor.holderId;
+}
+
+/**
+ * A participant may claim a free floor, and extend a grant they already hold
+ */
+export function canClaimFloor(floor: FloorGrant | null | undefined, participantId: string, now: number = Date.now()): boolean {
+  const holderId = getFloorHolder(floor, now);
+  return holderId === null || holderId === participantId;
+}
@@ -3,6 +3,12 @@
  * Central export point for all WebRTC functionality
  */
 
-export { signaling, type RoomData, type Participant, type ParticipantUpdateCallback, type RoomUpdateCallback } from './signaling';
-export { peerManager, type PeerConnection, type PeerManagerCallbacks } from './peer';
-export { pttManager, usePTT, type PTTConfig, type PTTState } from './ptt';
+export { signaling, SignalingService, type AudioProfile, type FloorGrant, type RoomData, type Participant, type ModerationCommand, type AdmissionRequest, type JoinRoomResult, type ParticipantUpdateCallback, type RoomUpdateCallback, type ModerationCommandCallback, type AdmissionRequestsCallback, type AdmissionStatusCallback, type EditableRoomSettings, type RoomAuditEntry, type AuditLogCallback } from './signaling';
+export { peerManager, type PeerConnection, type PeerManagerCallbacks, type ConnectionRecoveryEvent, type DataChannelMessage } from './peer';
+export { pttManager, usePTT, bindingId, describeBinding, PTT_POINTER_SOURCE, type PTTConfig, type PTTState, type PTTSettings, type PTTBinding, type PTTKeyBinding, type PTTGamepadBinding, type PTTMediaSessionBinding, type PTTListener } from './ptt';
+export { audioMixer, type ParticipantLevels, type MixerListener, type SpatialMode, type SpatialPosition } from './mixer';
+export { VoiceActivityDetector, RemoteSpeakingMonitor, type SpeakingChangeCallback, type RemoteSpeakingCallback } from './vad';
+export { deviceManager, type AudioDevices } from './devices';
+export { microphoneCapture } from './capture';
+export { callStats, type CallQualitySample, type CallStatsListener, type CandidateType, type SignalStrength } from './stats';
+export { createSignalingTransport, FirestoreTransport, SocketTransport, MemoryTransport, RoomAccessError, type RoomAccessReason, type SignalingTransport, type SignalingTransportType } from './transports';
@@ -0,0 +1,376 @@
+/**
+ * Remote Audio Mixer
+ * Routes every remote stream through one shared AudioContext:
+ * source → participant gain → spatial panner (optional) → master gain → speakers.
+ * Volume, mute, room map positions and the spatial mode are remembered
+ * across sessions; solo is not.
+ */
+
+import { MIXER_CONFIG } from './config';
+import { deviceManager } from './devices';
+
+export interface ParticipantLevels {
+  volume: number; // Percent, 0 to MIXER_CONFIG.maxVolume
+  muted: boolean;
+  soloed: boolean;
+}
+
+// off: every voice from the center
+// stereo: left/right panning that works on any speakers
+// hrtf: 3D placement, best on headphones
+export type SpatialMode = 'off' | 'stereo' | 'hrtf';
+
+// Room map coordinates around the listener at (0, 0):
+// x from -1 (left) to 1 (right), y from -1 (behind) to 1 (in front)
+export interface SpatialPosition {
+  x: number;
+  y: number;
+}
+
+export type MixerListener = () => void;
+
+interface StoredLevels {
+  master: number;
+  participants: Record<string, { volume: number; muted: boolean }>;
+  spatialMode: SpatialMode;
+  // Positions the user dragged on the room map
+  positions: Record<string, SpatialPosition>;
+}
+
+interface MixerChannel {
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  panner?: StereoPannerNode | PannerNode;
+}
+
+// Time constant for gain changes, short enough to feel instant without clicks
+const GAIN_RAMP_SECONDS = 0.015;
+
+// AudioContext.setSinkId is not in every browser or in the DOM typings yet
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+class AudioMixer {
+  private context?: AudioContext;
+  private masterGain?: GainNode;
+  private channels: Map<string, MixerChannel> = new Map();
+  // While anyone is soloed, only soloed participants are heard
+  private soloed: Set<string> = new Set();
+  // Positions from join order, for participants the user has not moved
+  private autoPositions: Map<string, SpatialPosition> = new Map();
+  private levels: StoredLevels = this.load();
+  private listeners: Set<MixerListener> = new Set();
+
+  /**
+   * Whether this browser can mix through Web Audio. Without it, peers fall
+   * back to plain <audio> playback and levels are not applied.
+   */
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'AudioContext' in window;
+  }
+
+  /**
+   * Route a participant's remote stream into the mix, replacing any previous stream
+   */
+  attach(participantId: string, stream: MediaStream): void {
+    const context = this.getContext();
+    this.disconnect(participantId);
+
+    const source = context.createMediaStreamSource(stream);
+    const gain = context.createGain();
+    gain.gain.value = this.effectiveGain(participantId);
+    source.connect(gain);
+
+    const channel: MixerChannel = { source, gain };
+    this.connectOutput(participantId, channel);
+    this.channels.set(participantId, channel);
+    this.resume();
+  }
+
+  /**
+   * Take a participant out of the mix, e.g. when they leave
+   */
+  detach(participantId: string): void {
+    this.disconnect(participantId);
+    if (this.soloed.delete(participantId)) {
+      this.applyAllGains();
+      this.notify();
+    }
+  }
+
+  detachAll(): void {
+    Array.from(this.channels.keys()).forEach(participantId => this.disconnect(participantId));
+    this.soloed.clear();
+    this.notify();
+  }
+
+  /**
+   * Start the AudioContext if autoplay rules kept it suspended
+   * (call after user interaction)
+   */
+  resume(): void {
+    if (this.context?.state === 'suspended') {
+      this.context.resume().catch(() => {
+        // Resumes on the next user interaction
+      });
+    }
+  }
+
+  getLevels(participantId: string): ParticipantLevels {
+    const stored = this.levels.participants[participantId];
+    return {
+      volume: stored?.volume ?? MIXER_CONFIG.defaultVolume,
+      muted: stored?.muted ?? false,
+      soloed: this.soloed.has(participantId)
+    };
+  }
+
+  setVolume(participantId: string, volume: number): void {
+    this.storeLevels(participantId, { volume: this.clamp(volume) });
+  }
+
+  setMuted(participantId: string, muted: boolean): void {
+    this.storeLevels(participantId, { muted });
+  }
+
+  setSoloed(participantId: string, soloed: boolean): void {
+    if (soloed) {
+      this.soloed.add(participantId);
+    } else {
+      this.soloed.delete(participantId);
+    }
+    this.applyAllGains();
+    this.notify();
+  }
+
+  getMasterVolume(): number {
+    return this.levels.master;
+  }
+
+  setMasterVolume(volume: number): void {
+    this.levels.master = this.clamp(volume);
+    if (this.context && this.masterGain) {
+      this.masterGain.gain.setTargetAtTime(this.levels.master / 100, this.context.currentTime, GAIN_RAMP_SECONDS);
+    }
+    this.save();
+    this.notify();
+  }
+
+  /**
+   * Send the mix to another speaker ('' for the default)
+   */
+  async setOutputDevice(deviceId: string): Promise<void> {
+    const context = this.context as SinkableAudioContext | undefined;
+    // A context created later picks the device up from deviceManager
+    if (!context?.setSinkId) return;
+    await context.setSinkId(deviceId);
+  }
+
+  getSpatialMode(): SpatialMode {
+    return this.levels.spatialMode;
+  }
+
+  setSpatialMode(mode: SpatialMode): void {
+    this.levels.spatialMode = mode;
+    this.channels.forEach((channel, participantId) => this.connectOutput(participantId, channel));
+    this.save();
+    this.notify();
+  }
+
+  /**
+   * Where a participant sits on the room map: where the user put them,
+   * else their place from join order, else straight ahead
+   */
+  getPosition(participantId: string): SpatialPosition {
+    return this.levels.positions[participantId] || this.autoPositions.get(participantId) || { x: 0, y: 1 };
+  }
+
+  /**
+   * Whether the user moved this participant on the room map
+   */
+  hasCustomPosition(participantId: string): boolean {
+    return participantId in this.levels.positions;
+  }
+
+  setPosition(participantId: string, position: SpatialPosition): void {
+    this.levels.positions[participantId] = {
+      x: Math.min(1, Math.max(-1, position.x)),
+      y: Math.min(1, Math.max(-1, position.y))
+    };
+    this.placePanner(participantId);
+    this.save();
+    this.notify();
+  }
+
+  /**
+   * Forget every dragged position and go back to join order
+   */
+  resetPositions(): void {
+    this.levels.positions = {};
+    this.channels.forEach((_, participantId) => this.placePanner(participantId));
+    this.save();
+    this.notify();
+  }
+
+  /**
+   * Spread remote participants on an arc in front of the listener,
+   * left to right in the order given (their join order)
+   */
+  arrange(participantIds: string[]): void {
+    const spread = MIXER_CONFIG.spatialSpread * Math.PI / 180;
+    this.autoPositions.clear();
+    participantIds.forEach((participantId, index) => {
+      const angle = participantIds.length > 1
+        ? -spread + (2 * spread * index) / (participantIds.length - 1)
+        : 0;
+      this.autoPositions.set(participantId, { x: Math.sin(angle), y: Math.cos(angle) });
+    });
+
+    this.channels.forEach((_, participantId) => this.placePanner(participantId));
+    this.notify();
+  }
+
+  /**
+   * Listen for level, mute, solo and position changes
+   */
+  subscribe(listener: MixerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.masterGain = this.context.createGain();
+      this.masterGain.gain.value = this.levels.master / 100;
+      this.masterGain.connect(this.context.destination);
+
+      const outputDeviceId = deviceManager.getOutputDeviceId();
+      if (outputDeviceId) {
+        this.setOutputDevice(outputDeviceId).catch(error => {
+          console.warn('Failed to use the chosen speaker:', error);
+        });
+      }
+    }
+    return this.context;
+  }
+
+  private disconnect(participantId: string): void {
+    const channel = this.channels.get(participantId);
+    if (!channel) return;
+
+    channel.source.disconnect();
+    channel.gain.disconnect();
+    channel.panner?.disconnect();
+    this.channels.delete(participantId);
+  }
+
+  /**
+   * (Re)connect a channel's gain to the master, through a panner for the
+   * current spatial mode
+   */
+  private connectOutput(participantId: string, channel: MixerChannel): void {
+    const context = this.context!;
+    channel.gain.disconnect();
+    channel.panner?.disconnect();
+
+    if (this.levels.spatialMode === 'stereo') {
+      channel.panner = context.createStereoPanner();
+    } else if (this.levels.spatialMode === 'hrtf') {
+      channel.panner = new PannerNode(context, {
+        panningModel: 'HRTF',
+        distanceModel: 'inverse',
+        // No distance attenuation inside the room map
+        refDistance: MIXER_CONFIG.hrtfDistance
+      });
+    } else {
+      channel.panner = undefined;
+    }
+
+    if (channel.panner) {
+      channel.gain.connect(channel.panner).connect(this.masterGain!);
+      this.placePanner(participantId, channel);
+    } else {
+      channel.gain.connect(this.masterGain!);
+    }
+  }
+
+  private placePanner(participantId: string, channel = this.channels.get(participantId)): void {
+    if (!channel?.panner || !this.context) return;
+
+    const { x, y } = this.getPosition(participantId);
+    const now = this.context.currentTime;
+    if (channel.panner instanceof StereoPannerNode) {
+      channel.panner.pan.setTargetAtTime(x, now, GAIN_RAMP_SECONDS);
+    } else {
+      // The listener faces -z
+      channel.panner.positionX.setTargetAtTime(x * MIXER_CONFIG.hrtfDistance, now, GAIN_RAMP_SECONDS);
+      channel.panner.positionZ.setTargetAtTime(-y * MIXER_CONFIG.hrtfDistance, now, GAIN_RAMP_SECONDS);
+    }
+  }
+
+  private effectiveGain(participantId: string): number {
+    const { volume, muted } = this.getLevels(participantId);
+    if (muted) return 0;
+    if (this.soloed.size > 0 && !this.soloed.has(participantId)) return 0;
+    return volume / 100;
+  }
+
+  private applyAllGains(): void {
+    this.channels.forEach((channel, participantId) => {
+      channel.gain.gain.setTargetAtTime(this.effectiveGain(participantId), this.context!.currentTime, GAIN_RAMP_SECONDS);
+    });
+  }
+
+  private storeLevels(participantId: string, updates: Partial<StoredLevels['participants'][string]>): void {
+    const { volume, muted } = { ...this.getLevels(participantId), ...updates };
+    if (volume === MIXER_CONFIG.defaultVolume && !muted) {
+      // Back to defaults, nothing worth remembering
+      delete this.levels.participants[participantId];
+    } else {
+      this.levels.participants[participantId] = { volume, muted };
+    }
+
+    this.applyAllGains();
+    this.save();
+    this.notify();
+  }
+
+  private clamp(volume: number): number {
+    return Math.min(MIXER_CONFIG.maxVolume, Math.max(0, Math.round(volume)));
+  }
+
+  private load(): StoredLevels {
+    try {
+      const stored = localStorage.getItem(MIXER_CONFIG.storageKey);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        return {
+          master: typeof parsed.master === 'number' ? parsed.master : MIXER_CONFIG.defaultVolume,
+          participants: parsed.participants && typeof parsed.participants === 'object' ? parsed.participants : {},
+          spatialMode: ['off', 'stereo', 'hrtf'].includes(parsed.spatialMode) ? parsed.spatialMode : 'off',
+          positions: parsed.positions && typeof parsed.positions === 'object' ? parsed.positions : {}
+        };
+      }
+    } catch (error) {
+      console.warn('Failed to load mixer levels:', error);
+    }
+    return { master: MIXER_CONFIG.defaultVolume, participants: {}, spatialMode: 'off', positions: {} };
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(MIXER_CONFIG.storageKey, JSON.stringify(this.levels));
+    } catch (error) {
+      console.warn('Failed to save mixer levels:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const audioMixer = new AudioMixer();
@@ -5,21 +5,56 @@
 
 import { signaling, type SignalingData, type Participant } from './signaling';
 import { authService } from '../firebase/auth';
-import { WEBRTC_CONFIG, FALLBACK_WEBRTC_CONFIG, CONNECTION_CONFIG, MEDIA_CONSTRAINTS } from './config';
+import { audioMixer } from './mixer';
+import { deviceManager } from './devices';
+import { microphoneCapture } from './capture';
+import { WEBRTC_CONFIG, FALLBACK_WEBRTC_CONFIG, CONNECTION_CONFIG, DATA_CHANNEL_CONFIG, AUDIO_PROFILES } from './config';
+import { applyOpusSettings } from './sdp';
+import type { AudioProfile } from './signaling';
 
 export interface PeerConnection {
   peer: RTCPeerConnection;
+  // Keeps the remote stream flowing; muted while audioMixer plays it
   audioElement: HTMLAudioElement;
   stream?: MediaStream;
   participantId: string;
+  // Reliable, ordered channel for DataChannelMessages
+  dataChannel?: RTCDataChannel;
+  // Perfect negotiation state (see handleDescription)
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+  handledDescriptions: Set<string>;
+}
+
+export interface ConnectionRecoveryEvent {
+  // grace-period: waiting for a disconnected peer to come back by itself
+  // ice-restart: restarting ICE on the existing RTCPeerConnection
+  // rebuild: replacing the RTCPeerConnection after repeated failures
+  action: 'grace-period' | 'ice-restart' | 'rebuild' | 'recovered' | 'gave-up';
+  attempt: number;
+  delay?: number;
+}
+
+/**
+ * Envelope for everything sent over the peer data channel
+ */
+export interface DataChannelMessage<T = unknown> {
+  type: string;
+  senderId: string;
+  id: string;
+  timestamp: number;
+  payload: T;
 }
 
 export interface PeerManagerCallbacks {
   onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
   onParticipantJoined?: (participantId: string) => void;
   onParticipantLeft?: (participantId: string) => void;
+  onConnectionRecovery?: (participantId: string, event: ConnectionRecoveryEvent) => void;
   onError?: (error: Error) => void;
-  onDataChannelMessage?: (participantId: string, message: any) => void;
+  onDataChannelMessage?: (participantId: string, message: DataChannelMessage) => void;
 }
 
 class PeerManager {
@@ -30,15 +65,31 @@ class PeerManager {
   private currentUserId?: string;
   private signalingUnsubscribes: (() => void)[] = [];
   private connectionRetryAttempts: Map<string, number> = new Map();
+  // Candidate keys already handed to each RTCPeerConnection
+  private appliedCandidates: Map<string, Set<string>> = new Map();
+  // Candidates that arrived before the peer or its remote description existed
+  private pendingCandidates: Map<string, RTCIceCandidateInit[]> = new Map();
+  // Signaling from each participant, handled one message at a time and in order
+  private signalingChains: Map<string, Promise<void>> = new Map();
+  // Pending grace-period / backoff timer per participant
+  private recoveryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private healthCheckInterval?: ReturnType<typeof setInterval>;
+  // Presenter broadcast: only this participant sends audio and listeners
+  // connect to them alone. null means a full mesh where everyone talks.
+  private presenterId: string | null = null;
+  // Room-wide Opus tuning for what we send
+  private audioProfile: AudioProfile = 'standard';
+  // Data channel messages waiting for a participant's channel to open
+  private pendingMessages: Map<string, DataChannelMessage[]> = new Map();
   private maxRetryAttempts = CONNECTION_CONFIG.maxRetryAttempts;
   private retryDelay = CONNECTION_CONFIG.retryDelay;
 
   /**
-   * Initialize local media stream
+   * Take a clone of the shared microphone for our connections
    */
   async initializeLocalStream(): Promise<MediaStream> {
     try {
-      this.localStream = await navigator.mediaDevices.getUserMedia(MEDIA_CONSTRAINTS);
+      this.localStream = await microphoneCapture.acquire();
       return this.localStream;
     } catch (error) {
       console.error('❌ Failed to access microphone:', error);
@@ -46,6 +97,49 @@ class PeerManager {
     }
   }
 
+  /**
+   * Open the microphone after joining without one (listen-only) and start
+   * sending it on every connection that should carry our audio. The recvonly
+   * transceivers become sendrecv, which fires negotiationneeded.
+   */
+  async enableMicrophone(): Promise<void> {
+    if (!this.localStream) {
+      await this.initializeLocalStream();
+    }
+    this.peers.forEach(peerConnection => this.syncLocalTracks(peerConnection));
+  }
+
+  /**
+   * Move to another microphone mid-call ('' for the default). The new track
+   * replaces the old one on every connection without renegotiating and keeps
+   * the current mute state.
+   */
+  async switchMicrophone(deviceId: string): Promise<void> {
+    const replaced = await microphoneCapture.switchDevice(deviceId);
+
+    await Promise.all(Array.from(this.peers.values()).map(({ peer }) => {
+      const sender = peer.getSenders().find(sender => sender.track && replaced.has(sender.track));
+      return sender?.replaceTrack(replaced.get(sender.track!)!);
+    }));
+  }
+
+  /**
+   * Play remote audio through another speaker ('' for the default)
+   */
+  async setOutputDevice(deviceId: string): Promise<void> {
+    deviceManager.setOutputDeviceId(deviceId);
+    await audioMixer.setOutputDevice(deviceId);
+
+    if (!audioMixer.isSupported()) {
+      // The audio elements play out loud themselves
+      await Promise.all(Array.from(this.peers.values()).map(({ audioElement }) =>
+        audioElement.setSinkId?.(deviceId).catch(() => {
+          // Keep playing on the current device
+        })
+      ));
+    }
+  }
+
   /**
    * Initialize peer connections for a room
    */
@@ -86,17 +180,28 @@ class PeerManager {
     const peerConnection: PeerConnection = {
       peer,
       audioElement,
-      participantId
+      participantId,
+      polite: this.isPolite(participantId),
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+      handledDescriptions: new Set()
     };
 
     // Set up peer connection event handlers
     this.setupPeerEventHandlers(peerConnection, participantId);
 
-    // Add local stream to peer connection
-    if (this.localStream) {
+    // Both sides create the same pre-negotiated channel, so neither waits for ondatachannel
+    peerConnection.dataChannel = this.createDataChannel(peerConnection);
+
+    // Add local stream to peer connection (this fires negotiationneeded, which sends the offer)
+    if (this.localStream && this.isSending()) {
       this.localStream.getTracks().forEach(track => {
         peer.addTrack(track, this.localStream!);
       });
+    } else {
+      // Still negotiate an audio m-line so we can receive
+      peer.addTransceiver('audio', { direction: 'recvonly' });
     }
 
     this.peers.set(participantId, peerConnection);
@@ -131,142 +236,397 @@ class PeerManager {
     // Reset retry attempts for new connection
     this.connectionRetryAttempts.delete(participantId);
     
-    // Create peer connection
+    // Create peer connection; the offer goes out from onnegotiationneeded
     console.log('🔧 Creating peer connection for:', participantId);
-    const peerConnection = await this.createPeer(participantId);
+    await this.createPeer(participantId);
     console.log('✅ Peer connection created for:', participantId);
-    
-    // Create offer
-    console.log('📝 Creating offer for:', participantId);
-    console.log('   Connection state before offer:', peerConnection.peer.connectionState);
-    console.log('   Signaling state before offer:', peerConnection.peer.signalingState);
-    
-    // Check if connection is in a valid state for creating offers
-    if (peerConnection.peer.signalingState === 'closed') {
-      console.error('❌ Cannot create offer: connection is closed for participant:', participantId);
-      throw new Error('Connection is closed');
-    }
-    
-    const offer = await peerConnection.peer.createOffer();
-    await peerConnection.peer.setLocalDescription(offer);
-    console.log('✅ Offer created and set for:', participantId);
-    
-    // Send offer through signaling
-    console.log('📤 Sending offer to:', participantId);
-    await signaling.sendOffer(this.currentRoomId, this.currentUserId, participantId, offer);
-    console.log('✅ Offer sent to:', participantId);
   }
 
   /**
    * Handle incoming offer
    */
   async handleOffer(fromId: string, offer: RTCSessionDescriptionInit): Promise<void> {
+    console.log('📥 Received offer from:', fromId);
+    await this.handleDescription(fromId, offer);
+  }
+
+  /**
+   * Handle incoming answer
+   */
+  async handleAnswer(fromId: string, answer: RTCSessionDescriptionInit): Promise<void> {
+    console.log('📥 Received answer from:', fromId);
+    await this.handleDescription(fromId, answer);
+  }
+
+  /**
+   * Apply a remote offer or answer using the perfect negotiation pattern.
+   * When both sides offer at once, the impolite peer ignores the incoming
+   * offer and the polite peer rolls back its own and answers instead.
+   */
+  private async handleDescription(fromId: string, description: RTCSessionDescriptionInit): Promise<void> {
     if (!this.currentRoomId || !this.currentUserId) {
       console.error('❌ Room not initialized');
       throw new Error('Room not initialized');
     }
 
-    console.log('📥 Received offer from:', fromId);
+    let peerConnection = this.peers.get(fromId);
 
-    // Check if peer connection already exists
-    if (this.peers.has(fromId)) {
-      console.log('⚠️ Peer connection already exists for:', fromId);
+    // A fresh offer for a dead connection means the remote side rebuilt its peer
+    if (peerConnection && description.type === 'offer' &&
+        (peerConnection.peer.connectionState === 'failed' || peerConnection.peer.connectionState === 'closed')) {
+      console.log('🧹 Replacing dead connection for new offer from:', fromId);
+      this.removePeer(fromId);
+      peerConnection = undefined;
+    }
+
+    if (!peerConnection) {
+      if (description.type !== 'offer') {
+        console.warn('⚠️ Ignoring', description.type, 'from', fromId, '- no peer connection');
+        return;
+      }
+      if (!this.shouldConnectTo(fromId)) {
+        console.log('📻 Ignoring offer from fellow listener:', fromId);
+        return;
+      }
+      console.log('🔧 Creating peer connection for offer from:', fromId);
+      peerConnection = await this.createPeer(fromId);
+    }
+
+    // Signaling documents can be delivered more than once
+    if (description.sdp && peerConnection.handledDescriptions.has(description.sdp)) {
       return;
     }
+    if (description.sdp) {
+      peerConnection.handledDescriptions.add(description.sdp);
+    }
 
-    // Create peer connection
-    console.log('🔧 Creating peer connection for offer from:', fromId);
-    const peerConnection = await this.createPeer(fromId);
-    console.log('✅ Peer connection created for offer from:', fromId);
-    
-    // Set remote description
-    console.log('📝 Setting remote description for:', fromId);
-    await peerConnection.peer.setRemoteDescription(offer);
-    console.log('✅ Remote description set for:', fromId);
-    
-    // Create answer
-    console.log('📝 Creating answer for:', fromId);
-    const answer = await peerConnection.peer.createAnswer();
-    await peerConnection.peer.setLocalDescription(answer);
-    console.log('✅ Answer created and set for:', fromId);
-    
-    // Send answer through signaling
-    console.log('📤 Sending answer to:', fromId);
-    await signaling.sendAnswer(this.currentRoomId, this.currentUserId, fromId, answer);
-    console.log('✅ Answer sent to:', fromId);
+    const { peer } = peerConnection;
+
+    if (description.type === 'answer' && peer.signalingState === 'stable' && !peerConnection.isSettingRemoteAnswerPending) {
+      console.warn('⚠️ Ignoring stale answer from:', fromId);
+      return;
+    }
+
+    const readyForOffer = !peerConnection.makingOffer &&
+      (peer.signalingState === 'stable' || peerConnection.isSettingRemoteAnswerPending);
+    const offerCollision = description.type === 'offer' && !readyForOffer;
+
+    peerConnection.ignoreOffer = !peerConnection.polite && offerCollision;
+    if (peerConnection.ignoreOffer) {
+      console.log('🤝 Offer collision with', fromId, '- impolite side, ignoring their offer');
+      return;
+    }
+
+    try {
+      if (offerCollision) {
+        console.log('🤝 Offer collision with', fromId, '- polite side, rolling back our offer');
+        await peer.setLocalDescription({ type: 'rollback' });
+      }
+
+      console.log('📝 Setting remote', description.type, 'for:', fromId);
+      peerConnection.isSettingRemoteAnswerPending = description.type === 'answer';
+      await peer.setRemoteDescription(this.withAudioProfile(description));
+      peerConnection.isSettingRemoteAnswerPending = false;
+      console.log('✅ Remote description set for:', fromId);
+    } catch (error) {
+      peerConnection.isSettingRemoteAnswerPending = false;
+      if (description.type !== 'offer') throw error;
+
+      // The offer belongs to a new remote session (e.g. a different DTLS fingerprint)
+      console.warn('⚠️ Offer does not fit existing connection, rebuilding for:', fromId, error);
+      this.removePeer(fromId);
+      peerConnection = await this.createPeer(fromId);
+      if (description.sdp) {
+        peerConnection.handledDescriptions.add(description.sdp);
+      }
+      await peerConnection.peer.setRemoteDescription(this.withAudioProfile(description));
+    }
+
+    await this.flushPendingCandidates(fromId);
+    await this.applyEncodingParameters(peerConnection);
+
+    if (description.type === 'offer') {
+      console.log('📝 Creating answer for:', fromId);
+      await peerConnection.peer.setLocalDescription();
+      const answer = this.toDescriptionInit(peerConnection.peer.localDescription!);
+      console.log('📤 Sending answer to:', fromId);
+      await signaling.sendAnswer(this.currentRoomId, this.currentUserId, fromId, answer);
+      console.log('✅ Answer sent to:', fromId);
+    }
   }
 
   /**
-   * Handle incoming answer
+   * Create and send an offer for a peer (called from onnegotiationneeded)
    */
-  async handleAnswer(fromId: string, answer: RTCSessionDescriptionInit): Promise<void> {
-    console.log('📥 Received answer from:', fromId);
-    
-    const peerConnection = this.peers.get(fromId);
-    if (peerConnection) {
-      console.log('📝 Setting remote description for answer from:', fromId);
-      await peerConnection.peer.setRemoteDescription(answer);
-      console.log('✅ Remote description set for answer from:', fromId);
-    } else {
-      console.error('❌ No peer connection found for participant:', fromId);
+  private async negotiate(peerConnection: PeerConnection): Promise<void> {
+    const { peer, participantId } = peerConnection;
+    if (!this.currentRoomId || !this.currentUserId || peer.signalingState === 'closed') return;
+
+    try {
+      peerConnection.makingOffer = true;
+      console.log('📝 Creating offer for:', participantId);
+      await peer.setLocalDescription();
+      const offer = this.toDescriptionInit(peer.localDescription!);
+      console.log('📤 Sending offer to:', participantId);
+      await signaling.sendOffer(this.currentRoomId, this.currentUserId, participantId, offer);
+      console.log('✅ Offer sent to:', participantId);
+    } catch (error) {
+      console.error('❌ Failed to negotiate with participant:', participantId, error);
+    } finally {
+      peerConnection.makingOffer = false;
     }
   }
 
+  /**
+   * A remote description with our audio profile's Opus parameters, which
+   * our encoder follows
+   */
+  private withAudioProfile(description: RTCSessionDescriptionInit): RTCSessionDescriptionInit {
+    if (!description.sdp) return description;
+    return { type: description.type, sdp: applyOpusSettings(description.sdp, AUDIO_PROFILES[this.audioProfile]) };
+  }
+
+  /**
+   * Cap the audio bitrate of our senders on one connection (no renegotiation needed)
+   */
+  private async applyEncodingParameters(peerConnection: PeerConnection): Promise<void> {
+    const { maxBitrate } = AUDIO_PROFILES[this.audioProfile];
+    const senders = peerConnection.peer.getSenders().filter(sender => sender.track?.kind === 'audio');
+
+    await Promise.all(senders.map(async sender => {
+      const parameters = sender.getParameters();
+      // Encodings exist once the sender has been negotiated
+      if (!parameters.encodings?.length) return;
+
+      parameters.encodings.forEach(encoding => {
+        if (maxBitrate) {
+          encoding.maxBitrate = maxBitrate;
+        } else {
+          delete encoding.maxBitrate;
+        }
+      });
+      try {
+        await sender.setParameters(parameters);
+      } catch (error) {
+        console.warn('⚠️ Failed to apply audio profile to sender:', error);
+      }
+    }));
+  }
+
+  /**
+   * Deterministic role per pair: the side with the lower user ID is polite
+   */
+  private isPolite(participantId: string): boolean {
+    return !!this.currentUserId && this.currentUserId < participantId;
+  }
+
+  /**
+   * Plain object copy of a session description that signaling can serialize
+   */
+  private toDescriptionInit(description: RTCSessionDescription): RTCSessionDescriptionInit {
+    return { type: description.type, sdp: description.sdp };
+  }
+
   /**
    * Handle incoming ICE candidate
    */
   async handleIceCandidate(fromId: string, candidate: RTCIceCandidateInit): Promise<void> {
     console.log('🧊 Received ICE candidate from:', fromId);
+
+    const key = this.getCandidateKey(candidate);
+    const applied = this.appliedCandidates.get(fromId);
+    if (applied?.has(key) || this.pendingCandidates.get(fromId)?.some(c => this.getCandidateKey(c) === key)) {
+      return;
+    }
     
     const peerConnection = this.peers.get(fromId);
-    if (peerConnection) {
-      console.log('🧊 Adding ICE candidate for:', fromId);
+    if (!peerConnection || !peerConnection.peer.remoteDescription) {
+      // Buffer until the offer/answer for this peer has been applied
+      console.log('🧊 Buffering ICE candidate until remote description is set for:', fromId);
+      const pending = this.pendingCandidates.get(fromId) || [];
+      pending.push(candidate);
+      this.pendingCandidates.set(fromId, pending);
+      return;
+    }
+
+    await this.addIceCandidate(peerConnection, fromId, candidate);
+  }
+
+  /**
+   * Apply candidates that were buffered before the remote description was set
+   */
+  private async flushPendingCandidates(participantId: string): Promise<void> {
+    const peerConnection = this.peers.get(participantId);
+    const pending = this.pendingCandidates.get(participantId);
+    if (!peerConnection || !pending || pending.length === 0) return;
+
+    this.pendingCandidates.delete(participantId);
+    console.log('🧊 Applying', pending.length, 'buffered ICE candidates for:', participantId);
+    for (const candidate of pending) {
+      await this.addIceCandidate(peerConnection, participantId, candidate);
+    }
+  }
+
+  private async addIceCandidate(peerConnection: PeerConnection, participantId: string, candidate: RTCIceCandidateInit): Promise<void> {
+    const applied = this.appliedCandidates.get(participantId) || new Set<string>();
+    this.appliedCandidates.set(participantId, applied);
+    applied.add(this.getCandidateKey(candidate));
+
+    try {
+      console.log('🧊 Adding ICE candidate for:', participantId);
       await peerConnection.peer.addIceCandidate(candidate);
-      console.log('✅ ICE candidate added for:', fromId);
-    } else {
-      console.error('❌ No peer connection found for ICE candidate from:', fromId);
+      console.log('✅ ICE candidate added for:', participantId);
+    } catch (error) {
+      // Candidates for an ignored offer or an older session are rejected harmlessly
+      if (!peerConnection.ignoreOffer) {
+        console.warn('⚠️ Failed to add ICE candidate for:', participantId, error);
+      }
     }
   }
 
+  private getCandidateKey(candidate: RTCIceCandidateInit): string {
+    return `${candidate.candidate}|${candidate.sdpMid}|${candidate.sdpMLineIndex}`;
+  }
+
   /**
-   * Retry connection to a participant
+   * Schedule the next recovery step for an unhealthy connection.
+   * Disconnected peers get a grace period first; failed peers get an ICE
+   * restart after an exponential backoff, and only once ICE restarts have
+   * been exhausted is the RTCPeerConnection rebuilt.
    */
-  private async retryConnection(participantId: string): Promise<void> {
-    const currentAttempts = this.connectionRetryAttempts.get(participantId) || 0;
-    
-    if (currentAttempts >= this.maxRetryAttempts) {
+  private scheduleRecovery(participantId: string): void {
+    const peerConnection = this.peers.get(participantId);
+    if (!peerConnection || this.recoveryTimers.has(participantId)) return;
+
+    const attempt = this.connectionRetryAttempts.get(participantId) || 0;
+    const disconnected = peerConnection.peer.connectionState === 'disconnected' ||
+      peerConnection.peer.iceConnectionState === 'disconnected';
+
+    if (attempt === 0 && disconnected) {
+      // Short network blips usually heal on their own
+      const delay = CONNECTION_CONFIG.disconnectGracePeriod;
+      this.callbacks.onConnectionRecovery?.(participantId, { action: 'grace-period', attempt, delay });
+      this.recoveryTimers.set(participantId, setTimeout(() => {
+        this.recoveryTimers.delete(participantId);
+        if (this.isUnhealthy(participantId)) {
+          this.attemptRecovery(participantId);
+        }
+      }, delay));
+      return;
+    }
+
+    const delay = Math.min(this.retryDelay * 2 ** attempt, CONNECTION_CONFIG.maxRetryDelay);
+    this.recoveryTimers.set(participantId, setTimeout(() => {
+      this.recoveryTimers.delete(participantId);
+      if (this.isUnhealthy(participantId)) {
+        this.attemptRecovery(participantId, delay);
+      }
+    }, delay));
+  }
+
+  /**
+   * Run one recovery attempt: an ICE restart, or a rebuild once restarts keep failing
+   */
+  private async attemptRecovery(participantId: string, delay?: number): Promise<void> {
+    const peerConnection = this.peers.get(participantId);
+    if (!peerConnection) return;
+
+    const attempt = (this.connectionRetryAttempts.get(participantId) || 0) + 1;
+    if (attempt > this.maxRetryAttempts) {
       console.error('❌ Max retry attempts reached for participant:', participantId);
+      this.callbacks.onConnectionRecovery?.(participantId, { action: 'gave-up', attempt: attempt - 1 });
       this.callbacks.onError?.(new Error(`Failed to connect to participant ${participantId} after ${this.maxRetryAttempts} attempts`));
       return;
     }
-    
-    this.connectionRetryAttempts.set(participantId, currentAttempts + 1);
-    
-    // Wait before retrying
-    await new Promise(resolve => setTimeout(resolve, this.retryDelay));
-    
+    this.connectionRetryAttempts.set(participantId, attempt);
+
     try {
-      // Remove old peer connection
-      const oldPeer = this.peers.get(participantId);
-      if (oldPeer) {
-        oldPeer.peer.close();
-        oldPeer.audioElement.remove();
-        this.peers.delete(participantId);
+      if (attempt < this.maxRetryAttempts) {
+        console.log('🧊 Restarting ICE with participant:', participantId, 'attempt', attempt);
+        this.callbacks.onConnectionRecovery?.(participantId, { action: 'ice-restart', attempt, delay });
+        await this.restartIce(peerConnection);
+      } else {
+        console.log('🔧 Rebuilding connection to participant:', participantId, 'attempt', attempt);
+        this.callbacks.onConnectionRecovery?.(participantId, { action: 'rebuild', attempt, delay });
+        await this.rebuildPeer(participantId);
       }
-      
-      // Create new peer connection with fallback config for retries
-      const useFallback = currentAttempts > 0;
-      const peerConnection = await this.createPeer(participantId, useFallback);
-      
-      // Recreate offer/answer flow
-      const offer = await peerConnection.peer.createOffer();
-      await peerConnection.peer.setLocalDescription(offer);
-      await signaling.sendOffer(this.currentRoomId!, this.currentUserId!, participantId, offer);
     } catch (error) {
-      // Will retry again on next failure
+      console.error('❌ Recovery attempt failed for participant:', participantId, error);
+    }
+
+    // Keep escalating until a state change reports the peer as connected
+    this.scheduleRecovery(participantId);
+  }
+
+  /**
+   * Restart ICE on the existing connection; the new offer goes out through negotiate()
+   */
+  private async restartIce(peerConnection: PeerConnection): Promise<void> {
+    const { peer } = peerConnection;
+
+    if (typeof peer.restartIce === 'function') {
+      // Fires negotiationneeded, which sends an ICE-restart offer
+      peer.restartIce();
+      return;
+    }
+
+    if (!this.currentRoomId || !this.currentUserId) return;
+
+    try {
+      peerConnection.makingOffer = true;
+      const offer = await peer.createOffer({ iceRestart: true });
+      await peer.setLocalDescription(offer);
+      await signaling.sendOffer(this.currentRoomId, this.currentUserId, peerConnection.participantId, this.toDescriptionInit(peer.localDescription!));
+    } finally {
+      peerConnection.makingOffer = false;
+    }
+  }
+
+  /**
+   * Replace the peer connection, using the fallback config.
+   * Keeps the retry count so a rebuild that also fails ends in gave-up.
+   */
+  private async rebuildPeer(participantId: string): Promise<void> {
+    // Tear down like removePeer so the mixer drops the old source; queued
+    // data channel messages stay for the new channel
+    if (this.closePeer(participantId)) {
+      this.callbacks.onParticipantLeft?.(participantId);
+    }
+
+    // onnegotiationneeded restarts the offer/answer flow
+    await this.createPeer(participantId, true);
+  }
+
+  /**
+   * Clear recovery state once a connection is healthy again
+   */
+  private handleConnectionRecovered(participantId: string): void {
+    this.clearRecoveryTimer(participantId);
+
+    const attempt = this.connectionRetryAttempts.get(participantId) || 0;
+    this.connectionRetryAttempts.delete(participantId);
+    if (attempt > 0) {
+      this.callbacks.onConnectionRecovery?.(participantId, { action: 'recovered', attempt });
+    }
+  }
+
+  private clearRecoveryTimer(participantId: string): void {
+    const timer = this.recoveryTimers.get(participantId);
+    if (timer) {
+      clearTimeout(timer);
+      this.recoveryTimers.delete(participantId);
     }
   }
 
+  private isUnhealthy(participantId: string): boolean {
+    const peerConnection = this.peers.get(participantId);
+    if (!peerConnection) return false;
+
+    const { connectionState, iceConnectionState } = peerConnection.peer;
+    return connectionState === 'failed' || connectionState === 'disconnected' ||
+      iceConnectionState === 'failed' || iceConnectionState === 'disconnected';
+  }
+
   /**
    * Add remote stream to peer connection
    */
@@ -276,15 +636,28 @@ class PeerManager {
       return;
     }
 
-    // Add remote stream to audio element
-    peerConnection.audioElement.srcObject = stream;
-    peerConnection.stream = stream;
+    this.playRemoteStream(peerConnection, stream);
   }
 
   removePeer(participantId: string): void {
+    this.clearRecoveryTimer(participantId);
+
+    if (!this.closePeer(participantId)) {
+      return;
+    }
+
+    this.pendingCandidates.delete(participantId);
+    this.pendingMessages.delete(participantId);
+    this.callbacks.onParticipantLeft?.(participantId);
+  }
+
+  /**
+   * Stop a participant's audio and close their connection; false if there was none
+   */
+  private closePeer(participantId: string): boolean {
     const peerConnection = this.peers.get(participantId);
     if (!peerConnection) {
-      return;
+      return false;
     }
     
     try {
@@ -338,39 +711,98 @@ class PeerManager {
         peerConnection.peer.close();
       }
       
+      audioMixer.detach(participantId);
       this.peers.delete(participantId);
-      this.callbacks.onParticipantLeft?.(participantId);
+      this.appliedCandidates.delete(participantId);
     } catch (error) {
       // Still remove from peers map even if cleanup failed
+      audioMixer.detach(participantId);
       this.peers.delete(participantId);
+      this.appliedCandidates.delete(participantId);
     }
+    return true;
   }
 
   /**
-   * Mute/unmute local stream
+   * Switch between a full mesh (presenterId null) and presenter broadcast.
+   * Connections the new layout does not need are closed, and the ones we
+   * keep start or stop sending our microphone. Call connectToAllParticipants
+   * afterwards to open any connection the new layout adds.
    */
-  setMuted(muted: boolean): void {
-    console.log('🎤 PeerManager.setMuted called with:', muted);
-    if (this.localStream) {
-      const audioTracks = this.localStream.getAudioTracks();
-      console.log('🎤 Found', audioTracks.length, 'audio tracks');
-      audioTracks.forEach((track, index) => {
-        console.log(`🎤 Track ${index}: enabled=${track.enabled}, setting to ${!muted}`);
-        track.enabled = !muted;
+  setPresenter(presenterId: string | null): void {
+    this.presenterId = presenterId;
+
+    for (const participantId of Array.from(this.peers.keys())) {
+      if (!this.shouldConnectTo(participantId)) {
+        console.log('📻 Closing connection not needed in this layout:', participantId);
+        this.removePeer(participantId);
+      }
+    }
+    this.peers.forEach(peerConnection => this.syncLocalTracks(peerConnection));
+  }
+
+  /**
+   * Switch the room's Opus profile. The bitrate changes right away through
+   * setParameters; DTX, FEC, stereo and ptime need a renegotiation, which one
+   * side of each connection starts.
+   */
+  setAudioProfile(profile: AudioProfile): void {
+    if (profile === this.audioProfile) return;
+    this.audioProfile = profile;
+
+    this.peers.forEach(peerConnection => {
+      this.applyEncodingParameters(peerConnection);
+      // Both sides get the same room update; only the impolite one offers
+      if (!peerConnection.polite && peerConnection.peer.remoteDescription && peerConnection.peer.signalingState === 'stable') {
+        this.negotiate(peerConnection);
+      }
+    });
+  }
+
+  /**
+   * Whether we send audio: everyone in a mesh, only the presenter in broadcast
+   */
+  isSending(): boolean {
+    return this.presenterId === null || this.presenterId === this.currentUserId;
+  }
+
+  /**
+   * In broadcast mode only connections to or from the presenter exist
+   */
+  private shouldConnectTo(participantId: string): boolean {
+    return this.presenterId === null || this.presenterId === participantId || this.presenterId === this.currentUserId;
+  }
+
+  /**
+   * Add or remove our microphone tracks on one connection to match isSending().
+   * Either way fires negotiationneeded, which sends the updated offer.
+   */
+  private syncLocalTracks(peerConnection: PeerConnection): void {
+    const { peer } = peerConnection;
+    const senders = peer.getSenders().filter(sender => sender.track);
+
+    if (this.isSending() && this.localStream) {
+      this.localStream.getTracks().forEach(track => {
+        if (!senders.some(sender => sender.track === track)) {
+          peer.addTrack(track, this.localStream!);
+        }
+      });
+    } else if (!this.isSending()) {
+      senders.forEach(sender => {
+        try {
+          peer.removeTrack(sender);
+        } catch (error) {
+          // Ignore remove track errors
+        }
       });
-    } else {
-      console.log('🎤 No local stream available for muting');
     }
   }
 
   /**
-   * Set volume for a specific participant
+   * Set volume for a specific participant, in percent (remembered across sessions)
    */
   setParticipantVolume(participantId: string, volume: number): void {
-    const peerConnection = this.peers.get(participantId);
-    if (peerConnection) {
-      peerConnection.audioElement.volume = volume / 100;
-    }
+    audioMixer.setVolume(participantId, volume);
   }
 
   /**
@@ -380,6 +812,24 @@ class PeerManager {
     return new Map(this.peers);
   }
 
+  /**
+   * Current incoming audio level (0..1) per connected participant, from getStats
+   */
+  async getAudioLevels(): Promise<Map<string, number>> {
+    const levels = new Map<string, number>();
+    await Promise.all(Array.from(this.peers.values()).map(async ({ peer, participantId }) => {
+      if (peer.connectionState !== 'connected') return;
+
+      const stats = await peer.getStats();
+      stats.forEach(report => {
+        if (report.type === 'inbound-rtp' && report.kind === 'audio' && typeof report.audioLevel === 'number') {
+          levels.set(participantId, Math.max(levels.get(participantId) ?? 0, report.audioLevel));
+        }
+      });
+    }));
+    return levels;
+  }
+
   /**
    * Get local stream
    */
@@ -406,10 +856,7 @@ class PeerManager {
     this.removeLocalTracksFromAllPeers();
     
     if (this.localStream) {
-      this.localStream.getTracks().forEach(track => {
-        track.stop();
-        track.enabled = false;
-      });
+      microphoneCapture.release(this.localStream);
       this.localStream = undefined;
     }
   }
@@ -425,6 +872,7 @@ class PeerManager {
       peerConnection.audioElement.pause();
       peerConnection.audioElement.load();
     });
+    audioMixer.detachAll();
   }
 
   /**
@@ -438,9 +886,9 @@ class PeerManager {
    * Enable audio playback (call after user interaction)
    */
   enableAudio(): void {
+    audioMixer.resume();
     this.peers.forEach((peerConnection) => {
       if (peerConnection.audioElement) {
-        peerConnection.audioElement.muted = false;
         peerConnection.audioElement.play().catch(() => {
           // Ignore play errors
         });
@@ -456,22 +904,39 @@ class PeerManager {
     if (!this.currentUserId) return;
 
     // Listen for all signaling data from other participants
-    const signalingUnsubscribe = signaling.onAllSignaling(roomId, this.currentUserId, async (fromId: string, data: SignalingData) => {
-      try {
-        if (data.offer) {
-          await this.handleOffer(fromId, data.offer);
-        }
-        if (data.answer) {
-          await this.handleAnswer(fromId, data.answer);
-        }
-        if (data.iceCandidates && data.iceCandidates.length > 0) {
-          for (const candidate of data.iceCandidates) {
-            await this.handleIceCandidate(fromId, candidate);
+    const signalingUnsubscribe = signaling.onAllSignaling(roomId, this.currentUserId, (fromId: string, data: SignalingData) => {
+      // Only live participants negotiate with us, never someone who merely
+      // knows the room code. A joiner we have not listed yet gets our own
+      // offer once their participant record arrives.
+      if (!signaling.getParticipants().some(p => p.id === fromId)) {
+        console.warn('⚠️ Ignoring signaling from a non-participant:', fromId);
+        return;
+      }
+
+      // An answer and the next offer can arrive back to back; the offer must
+      // wait until the answer has been applied
+      const previous = this.signalingChains.get(fromId) ?? Promise.resolve();
+      const next = previous.then(async () => {
+        try {
+          if (data.offer) {
+            await this.handleOffer(fromId, data.offer);
+          }
+          if (data.answer) {
+            await this.handleAnswer(fromId, data.answer);
+          }
+          if (data.iceCandidates && data.iceCandidates.length > 0) {
+            for (const candidate of data.iceCandidates) {
+              await this.handleIceCandidate(fromId, candidate);
+            }
           }
+        } catch (error) {
+          // Ignore signaling errors
         }
-      } catch (error) {
-        // Ignore signaling errors
-      }
+      });
+      this.signalingChains.set(fromId, next);
+      next.then(() => {
+        if (this.signalingChains.get(fromId) === next) this.signalingChains.delete(fromId);
+      });
     });
 
     this.signalingUnsubscribes.push(signalingUnsubscribe);
@@ -504,6 +969,7 @@ class PeerManager {
    */
   async handleNewParticipant(participantId: string): Promise<void> {
     if (!this.currentUserId || participantId === this.currentUserId) return;
+    if (!this.shouldConnectTo(participantId)) return;
 
     // Check if we already have a connection
     if (this.peers.has(participantId)) {
@@ -516,11 +982,14 @@ class PeerManager {
         console.log('   Connection state:', connectionState);
         console.log('   ICE state:', iceConnectionState);
         
-        // Only repair if connection is truly unhealthy
-        if (connectionState === 'failed' || connectionState === 'closed' || 
-            iceConnectionState === 'failed' || iceConnectionState === 'closed') {
-          console.log('🔧 Connection is unhealthy, removing and reconnecting:', participantId);
+        // Closed connections are gone for good; failed ones go through ICE restart first
+        if (connectionState === 'closed' || iceConnectionState === 'closed') {
+          console.log('🔧 Connection is closed, removing and reconnecting:', participantId);
           this.removePeer(participantId);
+        } else if (connectionState === 'failed' || iceConnectionState === 'failed') {
+          console.log('🔧 Connection failed, recovering:', participantId);
+          this.scheduleRecovery(participantId);
+          return;
         } else {
           console.log('✅ Connection to participant is healthy:', participantId);
           return; // Don't create a new connection
@@ -551,55 +1020,153 @@ class PeerManager {
    */
   private startConnectionHealthCheck(): void {
     // Check connection health every 30 seconds (less frequent to avoid interference)
-    setInterval(() => {
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+    }
+    this.healthCheckInterval = setInterval(() => {
       this.checkConnectionHealth();
     }, 30000);
   }
 
   /**
-   * Check and repair unhealthy connections
+   * Start recovery for unhealthy connections that no state change picked up
    */
-  private async checkConnectionHealth(): Promise<void> {
+  private checkConnectionHealth(): void {
     if (!this.currentRoomId || !this.currentUserId) return;
 
     for (const [participantId, peerConnection] of this.peers) {
-      const connectionState = peerConnection.peer.connectionState;
-      const iceConnectionState = peerConnection.peer.iceConnectionState;
-      
-      // Check if connection is unhealthy
-      if (connectionState === 'failed' || 
-          connectionState === 'disconnected' || 
-          iceConnectionState === 'failed' || 
-          iceConnectionState === 'disconnected') {
-        
+      if (this.isUnhealthy(participantId)) {
         console.log('🔧 Unhealthy connection detected for participant:', participantId);
-        console.log('   Connection state:', connectionState);
-        console.log('   ICE state:', iceConnectionState);
-        
-        // Remove the unhealthy connection
-        this.removePeer(participantId);
-        
-        // Attempt to reconnect
-        try {
-          console.log('🔄 Attempting to reconnect to participant:', participantId);
-          await this.connectToParticipant(participantId);
-        } catch (error) {
-          console.error('❌ Failed to reconnect to participant:', participantId, error);
-        }
+        console.log('   Connection state:', peerConnection.peer.connectionState);
+        console.log('   ICE state:', peerConnection.peer.iceConnectionState);
+
+        // Recovery escalates from ICE restart to rebuild; the peer stays in place meanwhile
+        this.scheduleRecovery(participantId);
       }
     }
   }
 
-  sendDataChannelMessage(participantId: string, message: any): void {
-    const peerConnection = this.peers.get(participantId);
-    if (peerConnection && peerConnection.peer.connectionState === 'connected') {
-      // Implementation would depend on data channel setup
+  /**
+   * Send a message to one participant, queued until their channel is open
+   */
+  sendDataChannelMessage<T>(participantId: string, type: string, payload: T): DataChannelMessage<T> {
+    const message = this.createMessage(type, payload);
+    this.deliverMessage(participantId, message);
+    return message;
+  }
+
+  /**
+   * Send a message to every participant we are connected to.
+   * In presenter mode listeners are only connected to the presenter.
+   */
+  broadcastDataChannelMessage<T>(type: string, payload: T): DataChannelMessage<T> {
+    const message = this.createMessage(type, payload);
+    this.peers.forEach((_, participantId) => this.deliverMessage(participantId, message));
+    return message;
+  }
+
+  private createMessage<T>(type: string, payload: T): DataChannelMessage<T> {
+    if (!this.currentUserId) {
+      throw new Error('Room not initialized');
+    }
+
+    return {
+      type,
+      senderId: this.currentUserId,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now(),
+      payload
+    };
+  }
+
+  private deliverMessage(participantId: string, message: DataChannelMessage): void {
+    const channel = this.peers.get(participantId)?.dataChannel;
+    if (channel?.readyState === 'open') {
+      try {
+        channel.send(JSON.stringify(message));
+        return;
+      } catch (error) {
+        console.warn('⚠️ Failed to send data channel message to:', participantId, error);
+      }
+    }
+
+    const queue = this.pendingMessages.get(participantId) || [];
+    queue.push(message);
+    if (queue.length > DATA_CHANNEL_CONFIG.maxQueuedMessages) {
+      queue.shift();
+    }
+    this.pendingMessages.set(participantId, queue);
+  }
+
+  /**
+   * Send everything queued for a participant once their channel opens
+   */
+  private flushPendingMessages(participantId: string): void {
+    const queue = this.pendingMessages.get(participantId);
+    if (!queue || queue.length === 0) return;
+
+    this.pendingMessages.delete(participantId);
+    console.log('📨 Sending', queue.length, 'queued data channel messages to:', participantId);
+    queue.forEach(message => this.deliverMessage(participantId, message));
+  }
+
+  private createDataChannel(peerConnection: PeerConnection): RTCDataChannel {
+    const { peer, participantId } = peerConnection;
+    const channel = peer.createDataChannel(DATA_CHANNEL_CONFIG.label, {
+      negotiated: true,
+      id: DATA_CHANNEL_CONFIG.id,
+      ordered: true
+    });
+
+    channel.onopen = () => {
+      // A rebuilt connection replaces the channel; only the current one flushes
+      if (this.peers.get(participantId)?.dataChannel === channel) {
+        this.flushPendingMessages(participantId);
+      }
+    };
+    channel.onmessage = (event) => {
+      this.handleDataChannelMessage(participantId, event.data);
+    };
+    channel.onerror = (event) => {
+      console.warn('⚠️ Data channel error with:', participantId, event);
+    };
+
+    return channel;
+  }
+
+  private handleDataChannelMessage(participantId: string, data: unknown): void {
+    let message: DataChannelMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch (error) {
+      console.warn('⚠️ Ignoring malformed data channel message from:', participantId);
+      return;
     }
+
+    const valid = !!message && typeof message.type === 'string' && typeof message.id === 'string' &&
+      typeof message.timestamp === 'number' && message.senderId === participantId;
+    if (!valid) {
+      console.warn('⚠️ Ignoring invalid data channel message from:', participantId);
+      return;
+    }
+
+    this.callbacks.onDataChannelMessage?.(participantId, message);
   }
 
   cleanup(): void {
-    // Clear retry attempts
+    // Clear retry attempts and pending recovery
     this.connectionRetryAttempts.clear();
+    this.recoveryTimers.forEach(timer => clearTimeout(timer));
+    this.recoveryTimers.clear();
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = undefined;
+    }
+    this.appliedCandidates.clear();
+    this.pendingCandidates.clear();
+    this.pendingMessages.clear();
+    this.presenterId = null;
+    this.audioProfile = 'standard';
     
     this.stopAllRemoteStreams();
     
@@ -609,10 +1176,7 @@ class PeerManager {
     });
 
     if (this.localStream) {
-      this.localStream.getTracks().forEach(track => {
-        track.stop();
-        track.enabled = false;
-      });
+      microphoneCapture.release(this.localStream);
       this.localStream = undefined;
     }
 
@@ -624,18 +1188,51 @@ class PeerManager {
       }
     });
     this.signalingUnsubscribes = [];
+    this.signalingChains.clear();
 
     this.currentRoomId = undefined;
     this.currentUserId = undefined;
     this.callbacks = {};
   }
 
+  /**
+   * Play a remote stream through the mixer, or straight through the
+   * participant's audio element when Web Audio is unavailable
+   */
+  private playRemoteStream(peerConnection: PeerConnection, stream: MediaStream): void {
+    const { audioElement, participantId } = peerConnection;
+    audioElement.srcObject = stream;
+    peerConnection.stream = stream;
+
+    if (audioMixer.isSupported()) {
+      // Chrome only feeds a remote stream into Web Audio while a media
+      // element is playing it, so the element keeps playing, muted
+      audioElement.muted = true;
+      audioMixer.attach(participantId, stream);
+    } else {
+      audioElement.muted = false;
+      audioElement.volume = 1.0;
+      const outputDeviceId = deviceManager.getOutputDeviceId();
+      if (outputDeviceId) {
+        audioElement.setSinkId?.(outputDeviceId).catch(() => {
+          // Plays on the default device
+        });
+      }
+    }
+
+    // Try to play audio (handle autoplay restrictions)
+    audioElement.play().catch(() => {
+      // Audio will play when user interacts with the page
+    });
+  }
+
   private setupPeerEventHandlers(peerConnection: PeerConnection, participantId: string): void {
-    const { peer, audioElement } = peerConnection;
+    const { peer } = peerConnection;
 
     // Handle incoming remote stream
     peer.ontrack = (event) => {
-      const [remoteStream] = event.streams;
+      // A track sent without a stream (e.g. replaceTrack after addTransceiver) arrives with none
+      const remoteStream = event.streams[0] ?? new MediaStream([event.track]);
       
       // Check if this is our own stream to prevent echo
       const isOwnStream = this.localStream && 
@@ -650,24 +1247,7 @@ class PeerManager {
         return;
       }
       
-      // Set up audio element
-      audioElement.srcObject = remoteStream;
-      peerConnection.stream = remoteStream;
-      
-      // Ensure audio plays
-      audioElement.muted = false;
-      audioElement.volume = 1.0;
-      
-      // Try to play audio (handle autoplay restrictions)
-      const playAudio = async () => {
-        try {
-          await audioElement.play();
-        } catch (error) {
-          // Audio will play when user interacts with the page
-        }
-      };
-      
-      playAudio();
+      this.playRemoteStream(peerConnection, remoteStream);
       
       // Check if ICE connection should be considered connected
       if (peer.iceConnectionState === 'new' && peer.iceGatheringState === 'complete') {
@@ -681,6 +1261,11 @@ class PeerManager {
       }
     };
 
+    // Send a (re)offer whenever tracks or transceivers change
+    peer.onnegotiationneeded = () => {
+      this.negotiate(peerConnection);
+    };
+
     // Handle ICE candidates
     peer.onicecandidate = async (event) => {
       if (event.candidate && this.currentRoomId && this.currentUserId) {
@@ -711,32 +1296,21 @@ class PeerManager {
       this.callbacks.onConnectionStateChange?.(peer.connectionState);
       
       if (peer.connectionState === 'connected') {
-        // Reset retry attempts on successful connection
-        this.connectionRetryAttempts.delete(participantId);
+        this.handleConnectionRecovered(participantId);
         this.callbacks.onParticipantJoined?.(participantId);
       } else if (peer.connectionState === 'disconnected' || peer.connectionState === 'failed') {
-        this.callbacks.onParticipantLeft?.(participantId);
-        
-        // Retry connection if it failed
-        if (peer.connectionState === 'failed') {
-          this.retryConnection(participantId);
-        }
+        // Transient: keep the peer and its audio element while we try to recover
+        this.scheduleRecovery(participantId);
       }
     };
 
     // Handle ICE connection state changes
     peer.oniceconnectionstatechange = () => {
       if (peer.iceConnectionState === 'connected') {
-        // Reset retry attempts on successful ICE connection
-        this.connectionRetryAttempts.delete(participantId);
+        this.handleConnectionRecovered(participantId);
         this.callbacks.onParticipantJoined?.(participantId);
       } else if (peer.iceConnectionState === 'disconnected' || peer.iceConnectionState === 'failed') {
-        this.callbacks.onParticipantLeft?.(participantId);
-        
-        // Retry connection if ICE failed
-        if (peer.iceConnectionState === 'failed') {
-          this.retryConnection(participantId);
-        }
+        this.scheduleRecovery(participantId);
       }
     };
 
@@ -766,14 +1340,6 @@ class PeerManager {
       console.error('ICE candidate error for', participantId, ':', error.errorText);
       this.callbacks.onError?.(new Error(`ICE candidate failed: ${error.errorText}`));
     };
-
-    // Handle data channel messages
-    peer.ondatachannel = (event) => {
-      const channel = event.channel;
-      channel.onmessage = (event) => {
-        this.callbacks.onDataChannelMessage?.(participantId, event.data);
-      };
-    };
   }
 }
 
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { hashPin } from './pin';
+
+describe('hashPin', () => {
+  it('returns the hex SHA-256 of the room ID and PIN', async () => {
+    // sha256("ABC123:1234")
+    expect(await hashPin('ABC123', '1234')).toBe(
+      'fa61109ab508af05521373e6ed34803aea5341aa7e336e9ddb72319088e995d1'
+    );
+  });
+
+  it('ignores whitespace around the PIN', async () => {
+    expect(await hashPin('ABC123', ' 1234 ')).toBe(await hashPin('ABC123', '1234'));
+  });
+
+  it('salts with the room ID', async () => {
+    expect(await hashPin('ABC123', '1234')).not.toBe(await hashPin('XYZ789', '1234'));
+  });
+});
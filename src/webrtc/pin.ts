@@ -0,0 +1,12 @@
+/**
+ * Room PINs
+ * A PIN is hashed (salted with the room ID) so it is never stored or sent in plaintext
+ */
+
+export async function hashPin(roomId: string, pin: string): Promise<string> {
+  const data = new TextEncoder().encode(`${roomId}:${pin.trim()}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
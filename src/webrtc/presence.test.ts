@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { isParticipantStale, toMillis } from './presence';
+import { PRESENCE_CONFIG } from './config';
+import type { Participant } from './signaling';
+
+const NOW = 1_700_000_000_000;
+
+const participant = (times: Pick<Participant, 'lastSeen' | 'joinedAt'>): Participant => ({
+  id: 'user-1',
+  name: 'Ada',
+  isHost: false,
+  isMuted: false,
+  isPresenter: false,
+  isSpeaking: false,
+  ...times
+});
+
+describe('toMillis', () => {
+  it('reads epoch millis, Dates and Firestore Timestamps', () => {
+    expect(toMillis(NOW)).toBe(NOW);
+    expect(toMillis(new Date(NOW))).toBe(NOW);
+    expect(toMillis({ toMillis: () => NOW })).toBe(NOW);
+  });
+
+  it('returns null for missing or unknown values', () => {
+    expect(toMillis(undefined)).toBeNull();
+    expect(toMillis(null)).toBeNull();
+    expect(toMillis('yesterday')).toBeNull();
+  });
+});
+
+describe('isParticipantStale', () => {
+  it('keeps a participant whose heartbeat is within staleAfter', () => {
+    const lastSeen = NOW - PRESENCE_CONFIG.staleAfter;
+    expect(isParticipantStale(participant({ lastSeen }), NOW)).toBe(false);
+  });
+
+  it('drops a participant whose heartbeat is older than staleAfter', () => {
+    const lastSeen = NOW - PRESENCE_CONFIG.staleAfter - 1;
+    expect(isParticipantStale(participant({ lastSeen }), NOW)).toBe(true);
+  });
+
+  it('prefers the heartbeat over the join time', () => {
+    const joinedAt = NOW - PRESENCE_CONFIG.staleAfter * 10;
+    expect(isParticipantStale(participant({ joinedAt, lastSeen: NOW }), NOW)).toBe(false);
+  });
+
+  it('falls back to the join time before the first heartbeat', () => {
+    const joinedAt = { toMillis: () => NOW - PRESENCE_CONFIG.staleAfter - 1 };
+    expect(isParticipantStale(participant({ joinedAt }), NOW)).toBe(true);
+  });
+
+  it('treats a participant without timestamps yet as live', () => {
+    expect(isParticipantStale(participant({}), NOW)).toBe(false);
+  });
+});
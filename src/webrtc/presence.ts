@@ -0,0 +1,29 @@
+/**
+ * Participant Presence
+ * Decides whether a participant is still live from its lastSeen heartbeat
+ */
+
+import { PRESENCE_CONFIG } from './config';
+import type { Participant } from './signaling';
+
+/**
+ * Convert a Firestore Timestamp, Date or epoch-millis value to millis
+ */
+export function toMillis(value: any): number | null {
+  if (value == null) return null;
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  return null;
+}
+
+/**
+ * A participant is stale once its last heartbeat (or, before the first
+ * heartbeat, its join time) is older than PRESENCE_CONFIG.staleAfter.
+ * Participants without either timestamp yet are treated as live.
+ */
+export function isParticipantStale(participant: Participant, now: number = Date.now()): boolean {
+  const lastSeen = toMillis(participant.lastSeen) ?? toMillis(participant.joinedAt);
+  if (lastSeen === null) return false;
+  return now - lastSeen > PRESENCE_CONFIG.staleAfter;
+}
@@ -0,0 +1,276 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../firebase/auth', () => ({
+  authService: { getCurrentUserId: () => 'user-1' }
+}));
+
+import { PTT_CONFIG } from './config';
+import type { PTTBinding, PTTKeyBinding } from './ptt';
+
+type Modifiers = Partial<Pick<PTTKeyBinding, 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>>;
+
+const STORAGE_KEY = `${PTT_CONFIG.storageKey}-user-1`;
+
+const keyBinding = (code: string, modifiers: Modifiers = {}): PTTKeyBinding => ({
+  type: 'key',
+  code,
+  ctrlKey: false,
+  altKey: false,
+  shiftKey: false,
+  metaKey: false,
+  ...modifiers
+});
+
+function press(type: 'keydown' | 'keyup', code: string, modifiers: Modifiers = {}, target: EventTarget = document.body): void {
+  target.dispatchEvent(new KeyboardEvent(type, { code, bubbles: true, cancelable: true, ...modifiers }));
+}
+
+describe('pttManager', () => {
+  // A fresh module per test, so settings loaded by one test don't leak into the next
+  let pttManager: typeof import('./ptt').pttManager;
+  const onStart = vi.fn();
+  const onEnd = vi.fn();
+
+  const enable = () => pttManager.configure({ enabled: true, onStart, onEnd });
+
+  beforeEach(async () => {
+    vi.resetModules();
+    localStorage.clear();
+    onStart.mockReset();
+    onEnd.mockReset();
+    ({ pttManager } = await import('./ptt'));
+  });
+
+  afterEach(() => {
+    pttManager.cleanup();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('key bindings', () => {
+    beforeEach(() => {
+      enable();
+      pttManager.updateSettings({ releaseTail: 0 });
+    });
+
+    it('talks while the default Space binding is held', () => {
+      press('keydown', 'Space');
+      expect(onStart).toHaveBeenCalledTimes(1);
+      expect(pttManager.isActive()).toBe(true);
+
+      press('keyup', 'Space');
+      expect(onEnd).toHaveBeenCalledTimes(1);
+      expect(pttManager.isActive()).toBe(false);
+    });
+
+    it('does not match while an extra modifier is held', () => {
+      press('keydown', 'Space', { ctrlKey: true });
+      expect(onStart).not.toHaveBeenCalled();
+    });
+
+    it('matches a modifier combination, whichever key comes up first', () => {
+      pttManager.updateSettings({ bindings: [keyBinding('KeyT', { ctrlKey: true, shiftKey: true })] });
+
+      press('keydown', 'KeyT', { ctrlKey: true });
+      expect(onStart).not.toHaveBeenCalled();
+
+      press('keydown', 'KeyT', { ctrlKey: true, shiftKey: true });
+      expect(pttManager.isActive()).toBe(true);
+
+      // Modifiers released before the key
+      press('keyup', 'KeyT');
+      expect(pttManager.isActive()).toBe(false);
+    });
+
+    it('matches a modifier bound on its own, although it sets its own flag', () => {
+      pttManager.updateSettings({ bindings: [keyBinding('ShiftLeft')] });
+
+      press('keydown', 'ShiftLeft', { shiftKey: true });
+      expect(pttManager.isActive()).toBe(true);
+    });
+
+    it('ignores keys typed into a text field', () => {
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+
+      press('keydown', 'Space', {}, input);
+      expect(onStart).not.toHaveBeenCalled();
+      input.remove();
+    });
+
+    it('keeps talking until the last of several held bindings is released', () => {
+      pttManager.updateSettings({ bindings: [keyBinding('Space'), keyBinding('KeyT')] });
+
+      press('keydown', 'Space');
+      press('keydown', 'KeyT');
+      press('keyup', 'Space');
+      expect(pttManager.isActive()).toBe(true);
+
+      press('keyup', 'KeyT');
+      expect(pttManager.isActive()).toBe(false);
+    });
+  });
+
+  describe('captureBinding', () => {
+    beforeEach(enable);
+
+    it('captures a key combination without talking', async () => {
+      const captured = pttManager.captureBinding();
+      press('keydown', 'KeyT', { ctrlKey: true });
+
+      expect(await captured).toEqual(keyBinding('KeyT', { ctrlKey: true }));
+      expect(onStart).not.toHaveBeenCalled();
+    });
+
+    it('captures a modifier pressed and released on its own', async () => {
+      const captured = pttManager.captureBinding();
+      press('keydown', 'ShiftLeft', { shiftKey: true });
+      press('keyup', 'ShiftLeft');
+
+      expect(await captured).toEqual(keyBinding('ShiftLeft'));
+    });
+
+    it('captures the key of a modifier combination, not the modifier', async () => {
+      const captured = pttManager.captureBinding();
+      press('keydown', 'AltLeft', { altKey: true });
+      press('keydown', 'KeyK', { altKey: true });
+
+      expect(await captured).toEqual(keyBinding('KeyK', { altKey: true }));
+    });
+
+    it('resolves null on Escape or cancelCapture', async () => {
+      const escaped = pttManager.captureBinding();
+      press('keydown', 'Escape');
+      expect(await escaped).toBeNull();
+
+      const cancelled = pttManager.captureBinding();
+      pttManager.cancelCapture();
+      expect(await cancelled).toBeNull();
+    });
+  });
+
+  describe('latch', () => {
+    beforeEach(() => {
+      enable();
+      pttManager.updateSettings({ latch: true, releaseTail: 0 });
+    });
+
+    it('toggles talking on each press and ignores releases', () => {
+      press('keydown', 'Space');
+      press('keyup', 'Space');
+      expect(pttManager.isActive()).toBe(true);
+
+      press('keydown', 'Space');
+      expect(pttManager.isActive()).toBe(false);
+      expect(onStart).toHaveBeenCalledTimes(1);
+      expect(onEnd).toHaveBeenCalledTimes(1);
+    });
+
+    it('closes a latched mic when latch is turned off', () => {
+      press('keydown', 'Space');
+      pttManager.updateSettings({ latch: false });
+
+      expect(pttManager.isActive()).toBe(false);
+      expect(onEnd).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('release tail', () => {
+    const tail = 250;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      enable();
+      pttManager.updateSettings({ releaseTail: tail });
+    });
+
+    it('keeps the mic open for the tail after release', () => {
+      press('keydown', 'Space');
+      press('keyup', 'Space');
+
+      vi.advanceTimersByTime(tail - 1);
+      expect(pttManager.isActive()).toBe(true);
+
+      vi.advanceTimersByTime(1);
+      expect(pttManager.isActive()).toBe(false);
+      expect(onEnd).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps talking when pressed again during the tail', () => {
+      press('keydown', 'Space');
+      press('keyup', 'Space');
+      vi.advanceTimersByTime(tail / 2);
+      press('keydown', 'Space');
+
+      vi.advanceTimersByTime(tail * 4);
+      expect(pttManager.isActive()).toBe(true);
+      expect(onStart).toHaveBeenCalledTimes(1);
+      expect(onEnd).not.toHaveBeenCalled();
+    });
+
+    it('stops right away on stopPTT, skipping the tail', () => {
+      press('keydown', 'Space');
+      press('keyup', 'Space');
+      pttManager.stopPTT();
+      expect(onEnd).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(tail);
+      expect(onEnd).toHaveBeenCalledTimes(1);
+    });
+
+    it('closes a latched mic after the tail on the second press', () => {
+      pttManager.updateSettings({ latch: true });
+      press('keydown', 'Space');
+      press('keydown', 'Space');
+      expect(pttManager.isActive()).toBe(true);
+
+      vi.advanceTimersByTime(tail);
+      expect(pttManager.isActive()).toBe(false);
+    });
+  });
+
+  describe('persisted settings', () => {
+    it('keeps only valid bindings and clamps the release tail', () => {
+      const valid: PTTBinding[] = [keyBinding('KeyT', { ctrlKey: true }), { type: 'gamepad', button: 2 }, { type: 'media-session' }];
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        bindings: [
+          valid[0],
+          { type: 'key', code: 5 },
+          { type: 'key', code: 'KeyX', ctrlKey: 'yes' },
+          { type: 'gamepad', button: -1 },
+          { type: 'gamepad', button: 1.5 },
+          valid[1],
+          null,
+          'Space',
+          valid[2]
+        ],
+        latch: 'yes',
+        releaseTail: PTT_CONFIG.maxReleaseTail * 10
+      }));
+
+      expect(pttManager.getSettings()).toEqual({
+        bindings: valid,
+        latch: false,
+        releaseTail: PTT_CONFIG.maxReleaseTail
+      });
+    });
+
+    it('falls back to the defaults when the stored settings are unreadable', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      localStorage.setItem(STORAGE_KEY, '{not json');
+
+      expect(pttManager.getSettings()).toEqual({
+        bindings: [keyBinding('Space')],
+        latch: false,
+        releaseTail: PTT_CONFIG.defaultReleaseTail
+      });
+    });
+
+    it('saves changes, with the release tail clamped', () => {
+      pttManager.updateSettings({ latch: true, releaseTail: -20 });
+
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!)).toMatchObject({ latch: true, releaseTail: 0 });
+    });
+  });
+});
@@ -1,11 +1,45 @@
 import React from 'react';
 /**
  * Push-to-Talk (PTT) functionality
- * Handles keyboard and touch events for push-to-talk mode
+ * Talks while a bound key combination, gamepad button or the on-screen button
+ * is held, or toggles on each press in latch mode. Headset play/pause comes
+ * through the Media Session API as clicks, so it always toggles. Bindings,
+ * latch and the release tail are remembered per signed-in user.
  */
 
+import { authService } from '../firebase/auth';
+import { PTT_CONFIG } from './config';
+
+export interface PTTKeyBinding {
+  type: 'key';
+  code: string; // KeyboardEvent.code, e.g. 'Space' or 'KeyT'
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+}
+
+export interface PTTGamepadBinding {
+  type: 'gamepad';
+  button: number; // Button index in the standard gamepad mapping
+}
+
+// Headset play/pause buttons
+export interface PTTMediaSessionBinding {
+  type: 'media-session';
+}
+
+export type PTTBinding = PTTKeyBinding | PTTGamepadBinding | PTTMediaSessionBinding;
+
+export interface PTTSettings {
+  bindings: PTTBinding[];
+  // Each press toggles talking instead of talking while held
+  latch: boolean;
+  // Milliseconds the mic stays open after release, 0 to PTT_CONFIG.maxReleaseTail
+  releaseTail: number;
+}
+
 export interface PTTConfig {
-  key: string;
   enabled: boolean;
   onStart: () => void;
   onEnd: () => void;
@@ -14,22 +48,138 @@ export interface PTTConfig {
 export interface PTTState {
   isActive: boolean;
   isEnabled: boolean;
-  key: string;
+  settings: PTTSettings;
+}
+
+export type PTTListener = () => void;
+
+// Source name for the on-screen talk button
+export const PTT_POINTER_SOURCE = 'pointer';
+
+const MODIFIERS = ['ctrlKey', 'altKey', 'shiftKey', 'metaKey'] as const;
+type Modifier = typeof MODIFIERS[number];
+
+const MODIFIER_LABELS: Record<Modifier, string> = {
+  ctrlKey: 'Ctrl',
+  altKey: 'Alt',
+  shiftKey: 'Shift',
+  metaKey: 'Meta'
+};
+
+// A held modifier key sets its own flag, which a binding of just that key ignores
+const MODIFIER_CODES: Record<string, Modifier> = {
+  ControlLeft: 'ctrlKey',
+  ControlRight: 'ctrlKey',
+  AltLeft: 'altKey',
+  AltRight: 'altKey',
+  ShiftLeft: 'shiftKey',
+  ShiftRight: 'shiftKey',
+  MetaLeft: 'metaKey',
+  MetaRight: 'metaKey'
+};
+
+const MEDIA_SESSION_ACTIONS: MediaSessionAction[] = ['play', 'pause'];
+
+const DEFAULT_SETTINGS: PTTSettings = {
+  bindings: [{ type: 'key', code: 'Space', ctrlKey: false, altKey: false, shiftKey: false, metaKey: false }],
+  latch: false,
+  releaseTail: PTT_CONFIG.defaultReleaseTail
+};
+
+/**
+ * Stable identity of a binding, for comparing bindings and tracking held ones
+ */
+export function bindingId(binding: PTTBinding): string {
+  if (binding.type === 'gamepad') return `gamepad:${binding.button}`;
+  if (binding.type === 'media-session') return 'media-session';
+  const own = MODIFIER_CODES[binding.code];
+  const modifiers = MODIFIERS.filter(modifier => binding[modifier] && modifier !== own);
+  return `key:${[...modifiers, binding.code].join('+')}`;
+}
+
+/**
+ * Human-readable name of a binding, e.g. "Ctrl + Shift + T"
+ */
+export function describeBinding(binding: PTTBinding): string {
+  if (binding.type === 'gamepad') return `Gamepad button ${binding.button + 1}`;
+  if (binding.type === 'media-session') return 'Headset play/pause';
+
+  const own = MODIFIER_CODES[binding.code];
+  const modifiers = MODIFIERS
+    .filter(modifier => binding[modifier] && modifier !== own)
+    .map(modifier => MODIFIER_LABELS[modifier]);
+  const key = binding.code
+    .replace(/^(Key|Digit)/, '')
+    .replace(/(.)(Left|Right)$/, '$1 $2');
+  return [...modifiers, key].join(' + ');
+}
+
+function toKeyBinding(event: KeyboardEvent): PTTKeyBinding {
+  const own = MODIFIER_CODES[event.code];
+  return {
+    type: 'key',
+    code: event.code,
+    ctrlKey: event.ctrlKey && own !== 'ctrlKey',
+    altKey: event.altKey && own !== 'altKey',
+    shiftKey: event.shiftKey && own !== 'shiftKey',
+    metaKey: event.metaKey && own !== 'metaKey'
+  };
+}
+
+function matchesKey(binding: PTTKeyBinding, event: KeyboardEvent): boolean {
+  if (binding.code !== event.code) return false;
+  const own = MODIFIER_CODES[binding.code];
+  return MODIFIERS.every(modifier => modifier === own || binding[modifier] === event[modifier]);
+}
+
+function isValidBinding(binding: unknown): binding is PTTBinding {
+  if (typeof binding !== 'object' || binding === null) return false;
+  const candidate = binding as Record<string, unknown>;
+  if (candidate.type === 'key') {
+    return typeof candidate.code === 'string' && MODIFIERS.every(modifier => typeof candidate[modifier] === 'boolean');
+  }
+  if (candidate.type === 'gamepad') {
+    return typeof candidate.button === 'number' && Number.isInteger(candidate.button) && candidate.button >= 0;
+  }
+  return candidate.type === 'media-session';
+}
+
+// Typing in a text field must not open the mic
+function isTyping(event: KeyboardEvent): boolean {
+  const target = event.target as HTMLElement | null;
+  return !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+// Buttons held on any connected gamepad
+function pressedGamepadButtons(): Set<number> {
+  const pressed = new Set<number>();
+  navigator.getGamepads?.().forEach(gamepad => {
+    gamepad?.buttons.forEach((button, index) => {
+      if (button.pressed) pressed.add(index);
+    });
+  });
+  return pressed;
 }
 
 class PTTManager {
   private config: PTTConfig | null = null;
-  private state: PTTState = {
+  private state = {
     isActive: false,
-    isEnabled: false,
-    key: 'Space'
+    isEnabled: false
   };
+  private settings: PTTSettings = DEFAULT_SETTINGS;
+  // Whose settings are loaded; undefined until the first load
+  private settingsUserId?: string | null;
+  private listeners: Set<PTTListener> = new Set();
+  // Bindings held down right now; talking ends when the last one is released
+  private held: Set<string> = new Set();
+  private releaseTimeout?: ReturnType<typeof setTimeout>;
+  private gamepadInterval?: ReturnType<typeof setInterval>;
+  private gamepadButtons: Set<number> = new Set();
+  private finishCapture?: (binding: PTTBinding | null) => void;
   private keyDownHandler?: (event: KeyboardEvent) => void;
   private keyUpHandler?: (event: KeyboardEvent) => void;
-  private touchStartHandler?: (event: TouchEvent) => void;
-  private touchEndHandler?: (event: TouchEvent) => void;
-  private mouseDownHandler?: (event: MouseEvent) => void;
-  private mouseUpHandler?: (event: MouseEvent) => void;
+  private blurHandler?: () => void;
 
   /**
    * Configure push-to-talk
@@ -37,7 +187,7 @@ class PTTManager {
   configure(config: PTTConfig): void {
     this.config = config;
     this.state.isEnabled = config.enabled;
-    this.state.key = config.key;
+    this.loadSettings();
 
     if (config.enabled) {
       this.setupEventListeners();
@@ -51,7 +201,7 @@ class PTTManager {
    */
   setEnabled(enabled: boolean): void {
     this.state.isEnabled = enabled;
-    
+
     if (enabled && this.config) {
       this.setupEventListeners();
     } else {
@@ -64,7 +214,7 @@ class PTTManager {
    * Get current PTT state
    */
   getState(): PTTState {
-    return { ...this.state };
+    return { ...this.state, settings: this.getSettings() };
   }
 
   /**
@@ -74,78 +224,270 @@ class PTTManager {
     return this.state.isActive;
   }
 
+  /**
+   * Bindings, latch and release tail of the signed-in user
+   */
+  getSettings(): PTTSettings {
+    this.loadSettings();
+    return { ...this.settings, bindings: [...this.settings.bindings] };
+  }
+
+  updateSettings(changes: Partial<PTTSettings>): void {
+    this.loadSettings();
+    const latchChanged = changes.latch !== undefined && changes.latch !== this.settings.latch;
+    this.settings = {
+      ...this.settings,
+      ...changes,
+      releaseTail: Math.min(PTT_CONFIG.maxReleaseTail, Math.max(0, Math.round(changes.releaseTail ?? this.settings.releaseTail)))
+    };
+    this.save();
+
+    // A latched mic would otherwise stay open with nothing left to close it
+    if (latchChanged) this.stopPTT();
+    if (changes.bindings && this.state.isEnabled && this.config) this.setupEventListeners();
+    this.notify();
+  }
+
+  addBinding(binding: PTTBinding): void {
+    const bindings = this.getSettings().bindings;
+    if (bindings.some(existing => bindingId(existing) === bindingId(binding))) return;
+    this.updateSettings({ bindings: [...bindings, binding] });
+  }
+
+  removeBinding(binding: PTTBinding): void {
+    const bindings = this.getSettings().bindings;
+    this.updateSettings({ bindings: bindings.filter(existing => bindingId(existing) !== bindingId(binding)) });
+  }
+
+  /**
+   * Listen for settings changes
+   */
+  subscribe(listener: PTTListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * A binding (or the on-screen button) went down: talk, or toggle when latched
+   */
+  press(source: string): void {
+    if (!this.state.isEnabled || this.finishCapture) return;
+
+    if (this.settings.latch) {
+      this.toggle();
+      return;
+    }
+    this.held.add(source);
+    this.startPTT();
+  }
+
+  /**
+   * A binding went up: stop after the release tail once nothing is held
+   */
+  release(source: string): void {
+    if (!this.held.delete(source) || this.held.size > 0) return;
+    this.scheduleStop();
+  }
+
   /**
    * Manually start PTT (for programmatic control)
    */
   startPTT(): void {
-    if (!this.state.isEnabled || this.state.isActive) return;
-    
+    if (!this.state.isEnabled) return;
+
+    // Pressing again during the release tail just keeps talking
+    this.clearReleaseTimeout();
+    if (this.state.isActive) return;
+
     this.state.isActive = true;
     this.config?.onStart();
   }
 
   /**
-   * Manually stop PTT (for programmatic control)
+   * Manually stop PTT (for programmatic control), without the release tail
    */
   stopPTT(): void {
+    this.clearReleaseTimeout();
+    this.held.clear();
     if (!this.state.isActive) return;
-    
+
     this.state.isActive = false;
     this.config?.onEnd();
   }
 
+  /**
+   * Wait for the next key combination or gamepad button to bind. A modifier
+   * pressed and released on its own binds by itself. Escape or
+   * cancelCapture() resolves null. Talking pauses meanwhile.
+   */
+  captureBinding(): Promise<PTTBinding | null> {
+    this.cancelCapture();
+    this.stopPTT();
+
+    return new Promise(resolve => {
+      let pendingModifier: string | null = null;
+      // Only new gamepad presses count, not buttons already down
+      let previousButtons = pressedGamepadButtons();
+
+      // Runs before the document listeners, so the keys never reach push to talk
+      const onKeyDown = (event: KeyboardEvent) => {
+        event.preventDefault();
+        event.stopPropagation();
+        if (event.repeat) return;
+
+        if (event.code === 'Escape') {
+          finish(null, event.code);
+        } else if (MODIFIER_CODES[event.code]) {
+          pendingModifier = event.code;
+        } else {
+          finish(toKeyBinding(event), event.code);
+        }
+      };
+
+      const onKeyUp = (event: KeyboardEvent) => {
+        event.preventDefault();
+        event.stopPropagation();
+        if (event.code === pendingModifier) finish(toKeyBinding(event));
+      };
+
+      const pollGamepads = setInterval(() => {
+        const buttons = pressedGamepadButtons();
+        const button = Array.from(buttons).find(index => !previousButtons.has(index));
+        previousButtons = buttons;
+        if (button !== undefined) finish({ type: 'gamepad', button });
+      }, PTT_CONFIG.gamepadPollInterval);
+
+      // pendingKeyUp: swallow that key's release too, so it can't click the
+      // button that started the capture
+      const finish = (binding: PTTBinding | null, pendingKeyUp?: string) => {
+        window.removeEventListener('keydown', onKeyDown, true);
+        window.removeEventListener('keyup', onKeyUp, true);
+        clearInterval(pollGamepads);
+        this.finishCapture = undefined;
+
+        if (pendingKeyUp) {
+          const swallowKeyUp = (event: KeyboardEvent) => {
+            if (event.code !== pendingKeyUp) return;
+            event.preventDefault();
+            event.stopPropagation();
+            window.removeEventListener('keyup', swallowKeyUp, true);
+          };
+          window.addEventListener('keyup', swallowKeyUp, true);
+        }
+        resolve(binding);
+      };
+
+      window.addEventListener('keydown', onKeyDown, true);
+      window.addEventListener('keyup', onKeyUp, true);
+      this.finishCapture = finish;
+    });
+  }
+
+  cancelCapture(): void {
+    this.finishCapture?.(null);
+  }
+
   /**
    * Cleanup PTT manager
    */
   cleanup(): void {
+    this.cancelCapture();
     this.removeEventListeners();
     this.stopPTT();
     this.config = null;
   }
 
+  private toggle(): void {
+    if (this.state.isActive && !this.releaseTimeout) {
+      this.scheduleStop();
+    } else {
+      this.startPTT();
+    }
+  }
+
+  private scheduleStop(): void {
+    this.clearReleaseTimeout();
+    if (this.settings.releaseTail <= 0) {
+      this.stopPTT();
+      return;
+    }
+    this.releaseTimeout = setTimeout(() => {
+      this.releaseTimeout = undefined;
+      this.stopPTT();
+    }, this.settings.releaseTail);
+  }
+
+  private clearReleaseTimeout(): void {
+    if (this.releaseTimeout) {
+      clearTimeout(this.releaseTimeout);
+      this.releaseTimeout = undefined;
+    }
+  }
+
   private setupEventListeners(): void {
     this.removeEventListeners();
+    const bindings = this.settings.bindings;
+    const keyBindings = bindings.filter((binding): binding is PTTKeyBinding => binding.type === 'key');
 
     // Keyboard events
     this.keyDownHandler = (event: KeyboardEvent) => {
-      if (this.shouldHandleKey(event)) {
-        event.preventDefault();
-        this.startPTT();
-      }
-    };
+      if (!this.state.isEnabled || isTyping(event)) return;
+      const binding = keyBindings.find(candidate => matchesKey(candidate, event));
+      if (!binding) return;
 
-    this.keyUpHandler = (event: KeyboardEvent) => {
-      if (this.shouldHandleKey(event)) {
-        event.preventDefault();
-        this.stopPTT();
-      }
-    };
-
-    // Touch events
-    this.touchStartHandler = (event: TouchEvent) => {
       event.preventDefault();
-      this.startPTT();
+      // Key autorepeat is not a new press, e.g. after the floor timed out
+      if (event.repeat) return;
+      this.press(bindingId(binding));
     };
 
-    this.touchEndHandler = (event: TouchEvent) => {
-      event.preventDefault();
-      this.stopPTT();
-    };
-
-    // Mouse events
-    this.mouseDownHandler = (event: MouseEvent) => {
-      event.preventDefault();
-      this.startPTT();
+    // Modifiers may come up before the key, so only the key code has to match
+    this.keyUpHandler = (event: KeyboardEvent) => {
+      keyBindings
+        .filter(binding => binding.code === event.code)
+        .forEach(binding => this.release(bindingId(binding)));
     };
 
-    this.mouseUpHandler = (event: MouseEvent) => {
-      event.preventDefault();
-      this.stopPTT();
+    // Key releases are missed while another window has focus
+    this.blurHandler = () => {
+      if (this.held.size === 0) return;
+      this.held.clear();
+      this.scheduleStop();
     };
 
-    // Add event listeners
     document.addEventListener('keydown', this.keyDownHandler);
     document.addEventListener('keyup', this.keyUpHandler);
+    window.addEventListener('blur', this.blurHandler);
+
+    // Gamepad events (the Gamepad API has no button events, so poll)
+    const gamepadBindings = bindings.filter((binding): binding is PTTGamepadBinding => binding.type === 'gamepad');
+    if (gamepadBindings.length > 0 && typeof navigator.getGamepads === 'function') {
+      this.gamepadButtons = pressedGamepadButtons();
+      this.gamepadInterval = setInterval(() => {
+        const buttons = pressedGamepadButtons();
+        gamepadBindings.forEach(binding => {
+          const id = bindingId(binding);
+          if (buttons.has(binding.button) && !this.gamepadButtons.has(binding.button)) this.press(id);
+          if (!buttons.has(binding.button) && this.gamepadButtons.has(binding.button)) this.release(id);
+        });
+        this.gamepadButtons = buttons;
+      }, PTT_CONFIG.gamepadPollInterval);
+    }
+
+    // Headset buttons
+    if (bindings.some(binding => binding.type === 'media-session') && 'mediaSession' in navigator) {
+      MEDIA_SESSION_ACTIONS.forEach(action => {
+        try {
+          navigator.mediaSession.setActionHandler(action, () => {
+            if (this.state.isEnabled && !this.finishCapture) this.toggle();
+          });
+        } catch (error) {
+          console.warn(`Media Session action "${action}" is not supported:`, error);
+        }
+      });
+    }
   }
 
   private removeEventListeners(): void {
@@ -157,29 +499,68 @@ class PTTManager {
       document.removeEventListener('keyup', this.keyUpHandler);
       this.keyUpHandler = undefined;
     }
-    if (this.touchStartHandler) {
-      document.removeEventListener('touchstart', this.touchStartHandler);
-      this.touchStartHandler = undefined;
+    if (this.blurHandler) {
+      window.removeEventListener('blur', this.blurHandler);
+      this.blurHandler = undefined;
     }
-    if (this.touchEndHandler) {
-      document.removeEventListener('touchend', this.touchEndHandler);
-      this.touchEndHandler = undefined;
+    if (this.gamepadInterval) {
+      clearInterval(this.gamepadInterval);
+      this.gamepadInterval = undefined;
     }
-    if (this.mouseDownHandler) {
-      document.removeEventListener('mousedown', this.mouseDownHandler);
-      this.mouseDownHandler = undefined;
+    if ('mediaSession' in navigator) {
+      MEDIA_SESSION_ACTIONS.forEach(action => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch (error) {
+          // Never registered
+        }
+      });
     }
-    if (this.mouseUpHandler) {
-      document.removeEventListener('mouseup', this.mouseUpHandler);
-      this.mouseUpHandler = undefined;
+  }
+
+  /**
+   * Load the signed-in user's settings if someone else's are loaded
+   */
+  private loadSettings(): void {
+    const userId = authService.getCurrentUserId();
+    if (userId === this.settingsUserId) return;
+    this.settingsUserId = userId;
+    this.settings = this.load();
+  }
+
+  private storageKey(): string {
+    return this.settingsUserId ? `${PTT_CONFIG.storageKey}-${this.settingsUserId}` : PTT_CONFIG.storageKey;
+  }
+
+  private load(): PTTSettings {
+    try {
+      const stored = localStorage.getItem(this.storageKey());
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        return {
+          bindings: Array.isArray(parsed.bindings) ? parsed.bindings.filter(isValidBinding) : DEFAULT_SETTINGS.bindings,
+          latch: typeof parsed.latch === 'boolean' ? parsed.latch : DEFAULT_SETTINGS.latch,
+          releaseTail: typeof parsed.releaseTail === 'number'
+            ? Math.min(PTT_CONFIG.maxReleaseTail, Math.max(0, parsed.releaseTail))
+            : DEFAULT_SETTINGS.releaseTail
+        };
+      }
+    } catch (error) {
+      console.warn('Failed to load push-to-talk settings:', error);
+    }
+    return DEFAULT_SETTINGS;
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey(), JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save push-to-talk settings:', error);
     }
   }
 
-  private shouldHandleKey(event: KeyboardEvent): boolean {
-    if (!this.state.isEnabled || !this.config) return false;
-    
-    // Only handle the configured key
-    return event.code === this.config.key || event.key === this.config.key;
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
   }
 }
 
@@ -192,12 +573,10 @@ export const pttManager = new PTTManager();
 export function usePTT(
   enabled: boolean,
   onStart: () => void,
-  onEnd: () => void,
-  key: string = 'Space'
+  onEnd: () => void
 ) {
   const configurePTT = () => {
     pttManager.configure({
-      key,
       enabled,
       onStart,
       onEnd
@@ -207,7 +586,7 @@ export function usePTT(
   // Update configuration when dependencies change
   React.useEffect(() => {
     configurePTT();
-  }, [enabled, onStart, onEnd, key]);
+  }, [enabled, onStart, onEnd]);
 
   // Cleanup on unmount
   React.useEffect(() => {
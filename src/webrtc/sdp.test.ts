@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { applyOpusSettings } from './sdp';
+import { AUDIO_PROFILES, type OpusSettings } from './config';
+
+const sdp = (...lines: string[]) => [...lines, ''].join('\r\n');
+
+const SESSION = [
+  'v=0',
+  'o=- 4611731400430051336 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0'
+];
+
+const AUDIO = [
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111 0',
+  'c=IN IP4 0.0.0.0',
+  'a=rtpmap:111 opus/48000/2',
+  'a=fmtp:111 minptime=10;useinbandfec=1',
+  'a=rtpmap:0 PCMU/8000'
+];
+
+const DATA = [
+  'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+  'c=IN IP4 0.0.0.0',
+  'a=sctp-port:5000'
+];
+
+describe('applyOpusSettings', () => {
+  it('rewrites the Opus fmtp and adds a ptime to the audio section', () => {
+    const result = applyOpusSettings(sdp(...SESSION, ...AUDIO), AUDIO_PROFILES['low-bandwidth']);
+
+    expect(result).toBe(sdp(
+      ...SESSION,
+      'm=audio 9 UDP/TLS/RTP/SAVPF 111 0',
+      'c=IN IP4 0.0.0.0',
+      'a=rtpmap:111 opus/48000/2',
+      'a=fmtp:111 minptime=10;useinbandfec=1;usedtx=1;stereo=0;sprop-stereo=0;maxaveragebitrate=16000',
+      'a=rtpmap:0 PCMU/8000',
+      'a=ptime:60'
+    ));
+  });
+
+  it('replaces an existing ptime instead of adding a second one', () => {
+    const result = applyOpusSettings(sdp(...SESSION, ...AUDIO, 'a=ptime:20'), AUDIO_PROFILES['low-bandwidth']);
+
+    expect(result.match(/a=ptime:/g)).toHaveLength(1);
+    expect(result).toContain('a=ptime:60');
+  });
+
+  it('adds an fmtp line after the rtpmap when Opus has none', () => {
+    const result = applyOpusSettings(
+      sdp(...SESSION, 'm=audio 9 UDP/TLS/RTP/SAVPF 111', 'a=rtpmap:111 opus/48000/2'),
+      AUDIO_PROFILES.standard
+    );
+
+    expect(result).toContain(
+      'a=rtpmap:111 opus/48000/2\r\na=fmtp:111 useinbandfec=1;usedtx=0;stereo=0;sprop-stereo=0'
+    );
+  });
+
+  it('drops a previous bitrate cap when the settings have none', () => {
+    const capped = applyOpusSettings(sdp(...SESSION, ...AUDIO), AUDIO_PROFILES['high-fidelity']);
+    expect(capped).toContain('maxaveragebitrate=128000');
+
+    const uncapped = applyOpusSettings(capped, AUDIO_PROFILES.standard);
+    expect(uncapped).not.toContain('maxaveragebitrate');
+    expect(uncapped).toContain('stereo=0');
+  });
+
+  it('leaves sections other than audio alone', () => {
+    const result = applyOpusSettings(sdp(...SESSION, ...AUDIO, ...DATA), AUDIO_PROFILES.standard);
+
+    expect(result.endsWith(sdp(...DATA))).toBe(true);
+    expect(result).toContain('a=ptime:20\r\nm=application');
+  });
+
+  it('returns an SDP without Opus unchanged', () => {
+    const input = sdp(...SESSION, 'm=audio 9 UDP/TLS/RTP/SAVPF 0', 'a=rtpmap:0 PCMU/8000');
+    const settings: OpusSettings = { dtx: true, fec: true, stereo: true, ptime: 40 };
+
+    expect(applyOpusSettings(input, settings)).toBe(input);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * SDP Helpers
+ * Opus parameters travel in the fmtp line of a session description. Our
+ * encoder follows the parameters in the remote description, so rewriting a
+ * description before setRemoteDescription tunes what we send.
+ */
+
+import type { OpusSettings } from './config';
+
+const OPUS_RTPMAP = /^a=rtpmap:(\d+) opus\/48000/i;
+
+/**
+ * Rewrite the Opus fmtp and ptime of every audio section in an SDP
+ */
+export function applyOpusSettings(sdp: string, settings: OpusSettings): string {
+  const lines = sdp.split('\r\n');
+  const opusPayloads = new Set(
+    lines.map(line => line.match(OPUS_RTPMAP)?.[1]).filter((payload): payload is string => !!payload)
+  );
+  if (opusPayloads.size === 0) return sdp;
+
+  const result: string[] = [];
+  let inAudioSection = false;
+  let sectionHasPtime = false;
+
+  const endSection = () => {
+    if (inAudioSection && !sectionHasPtime) {
+      // Session attributes end with the trailing empty string, keep that last
+      const insertAt = result[result.length - 1] === '' ? result.length - 1 : result.length;
+      result.splice(insertAt, 0, `a=ptime:${settings.ptime}`);
+    }
+  };
+
+  lines.forEach(line => {
+    if (line.startsWith('m=')) {
+      endSection();
+      inAudioSection = line.startsWith('m=audio');
+      sectionHasPtime = false;
+    }
+
+    if (inAudioSection && line.startsWith('a=ptime:')) {
+      sectionHasPtime = true;
+      result.push(`a=ptime:${settings.ptime}`);
+      return;
+    }
+
+    const fmtp = line.match(/^a=fmtp:(\d+) (.*)$/);
+    if (fmtp && opusPayloads.has(fmtp[1])) {
+      result.push(`a=fmtp:${fmtp[1]} ${buildOpusParameters(fmtp[2], settings)}`);
+      return;
+    }
+
+    result.push(line);
+
+    // Opus without an fmtp line gets one right after its rtpmap
+    const rtpmap = line.match(OPUS_RTPMAP);
+    if (rtpmap && !lines.some(other => other.startsWith(`a=fmtp:${rtpmap[1]} `))) {
+      result.push(`a=fmtp:${rtpmap[1]} ${buildOpusParameters('', settings)}`);
+    }
+  });
+  endSection();
+
+  return result.join('\r\n');
+}
+
+function buildOpusParameters(existing: string, settings: OpusSettings): string {
+  const parameters = new Map<string, string>();
+  existing.split(';').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [key, value = ''] = part.split('=');
+    parameters.set(key.toLowerCase(), value);
+  });
+
+  parameters.set('useinbandfec', settings.fec ? '1' : '0');
+  parameters.set('usedtx', settings.dtx ? '1' : '0');
+  parameters.set('stereo', settings.stereo ? '1' : '0');
+  parameters.set('sprop-stereo', settings.stereo ? '1' : '0');
+  if (settings.maxBitrate) {
+    parameters.set('maxaveragebitrate', String(settings.maxBitrate));
+  } else {
+    parameters.delete('maxaveragebitrate');
+  }
+
+  return Array.from(parameters.entries()).map(([key, value]) => `${key}=${value}`).join(';');
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createSessionId, isCurrentSignal } from './sessions';
+
+describe('createSessionId', () => {
+  it('is new on every call', () => {
+    expect(createSessionId()).not.toBe(createSessionId());
+  });
+});
+
+describe('isCurrentSignal', () => {
+  it('accepts a message addressed to our session', () => {
+    expect(isCurrentSignal({ fromSessionId: 'theirs', toSessionId: 'ours' }, 'ours', 'theirs')).toBe(true);
+  });
+
+  it('ignores a message addressed to an earlier session of ours', () => {
+    expect(isCurrentSignal({ fromSessionId: 'theirs', toSessionId: 'old' }, 'ours', 'theirs')).toBe(false);
+  });
+
+  it('accepts an unaddressed message from the sender\'s current session', () => {
+    expect(isCurrentSignal({ fromSessionId: 'theirs' }, 'ours', 'theirs')).toBe(true);
+  });
+
+  it('ignores an unaddressed message from an earlier session of the sender', () => {
+    expect(isCurrentSignal({ fromSessionId: 'old' }, 'ours', 'theirs')).toBe(false);
+    expect(isCurrentSignal({ fromSessionId: 'old' }, 'ours', undefined)).toBe(false);
+  });
+
+  it('ignores a message without sessions', () => {
+    expect(isCurrentSignal({}, 'ours', 'theirs')).toBe(false);
+  });
+});
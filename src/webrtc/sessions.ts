@@ -0,0 +1,27 @@
+/**
+ * Signaling Sessions
+ * Every visit to a room gets a fresh session ID, stored on the participant
+ * record and stamped on each offer, answer and ICE candidate. Listeners that
+ * subscribe again (e.g. after rejoining) are handed old messages too; those
+ * carry an earlier session and are ignored.
+ */
+
+import type { SignalingSessions } from './signaling';
+
+export function createSessionId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Whether a message belongs to our current session. A sender that did not
+ * know our session yet leaves toSessionId empty; such a message counts only
+ * when it comes from the sender's current session.
+ */
+export function isCurrentSignal(
+  sessions: Partial<SignalingSessions>,
+  sessionId: string | null,
+  senderSessionId?: string
+): boolean {
+  if (sessions.toSessionId) return sessions.toSessionId === sessionId;
+  return !!sessions.fromSessionId && sessions.fromSessionId === senderSessionId;
+}
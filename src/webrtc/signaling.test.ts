@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Whoever the test is acting as; every SignalingService reads it through authService
+const auth = vi.hoisted(() => ({ userId: null as string | null }));
+
+vi.mock('../firebase/auth', () => ({
+  authService: {
+    isAuthenticated: () => auth.userId !== null,
+    signInAnonymously: async () => {},
+    getCurrentUserId: () => auth.userId
+  }
+}));
+vi.mock('../firebase/config', () => ({ db: {} }));
+
+import { SignalingService, type RoomData, type SignalingData } from './signaling';
+import { MemoryTransport } from './transports/memory';
+import { RoomAccessError } from './transports/types';
+
+const SETTINGS: RoomData['settings'] = {
+  pushToTalk: false,
+  transcription: false,
+  exclusiveFloor: true
+};
+
+// MemoryTransport delivers through microtasks
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function as<T>(userId: string, action: () => T): T {
+  auth.userId = userId;
+  return action();
+}
+
+async function roomState(roomId: string): Promise<RoomData | null> {
+  let state: RoomData | null = null;
+  const unsubscribe = new MemoryTransport().onRoom(roomId, room => {
+    state = room;
+  });
+  await flush();
+  unsubscribe();
+  return state;
+}
+
+async function accessError(join: Promise<unknown>): Promise<RoomAccessError['reason'] | null> {
+  try {
+    await join;
+    return null;
+  } catch (error) {
+    if (error instanceof RoomAccessError) return error.reason;
+    throw error;
+  }
+}
+
+describe('SignalingService with MemoryTransport', () => {
+  let alice: SignalingService;
+  let bob: SignalingService;
+
+  beforeEach(() => {
+    // Heartbeats run on intervals; keep them from firing between tests
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    vi.stubGlobal('window', {
+      location: { origin: 'http://localhost' },
+      addEventListener: () => {},
+      removeEventListener: () => {}
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    alice = new SignalingService(new MemoryTransport());
+    bob = new SignalingService(new MemoryTransport());
+  });
+
+  afterEach(() => {
+    MemoryTransport.reset();
+    auth.userId = null;
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('lets a second participant join a created room', async () => {
+    const room = await as('alice', () => alice.createRoom('Standup', SETTINGS, 'Alice'));
+    const joined = await as('bob', () => bob.joinRoom(room.id.toLowerCase(), 'Bob'));
+
+    expect(joined.admission).toBe('admitted');
+    expect(joined.room.id).toBe(room.id);
+    expect(joined.room.hostId).toBe('alice');
+
+    const names: string[][] = [];
+    as('alice', () => alice.onParticipants(room.id, participants => names.push(participants.map(p => p.name))));
+    await flush();
+    expect(names.at(-1)).toEqual(['Alice', 'Bob']);
+  });
+
+  it('deactivates the room once the last participant leaves, and reactivates it on the next join', async () => {
+    const room = await as('alice', () => alice.createRoom('Standup', SETTINGS, 'Alice'));
+    await as('bob', () => bob.joinRoom(room.id, 'Bob'));
+
+    await as('alice', () => alice.leaveRoom());
+    expect((await roomState(room.id))?.isActive).toBe(true);
+
+    await as('bob', () => bob.leaveRoom());
+    expect((await roomState(room.id))?.isActive).toBe(false);
+
+    await as('bob', () => bob.joinRoom(room.id, 'Bob'));
+    expect((await roomState(room.id))?.isActive).toBe(true);
+  });
+
+  it('refuses a join with a missing or wrong PIN', async () => {
+    const room = await as('alice', () => alice.createRoom('Private', SETTINGS, 'Alice', '1234'));
+
+    expect(await accessError(as('bob', () => bob.joinRoom(room.id, 'Bob')))).toBe('pin-required');
+    expect(await accessError(as('bob', () => bob.joinRoom(room.id, 'Bob', '9999')))).toBe('incorrect-pin');
+    expect(await accessError(as('bob', () => bob.joinRoom(room.id, 'Bob', ' 1234 ')))).toBeNull();
+  });
+
+  it('refuses new participants once the host locks the room', async () => {
+    const room = await as('alice', () => alice.createRoom('Standup', SETTINGS, 'Alice'));
+    await as('alice', () => alice.setRoomLocked(true));
+
+    expect(await accessError(as('bob', () => bob.joinRoom(room.id, 'Bob')))).toBe('locked');
+  });
+
+  it('keeps a removed participant from joining again', async () => {
+    const room = await as('alice', () => alice.createRoom('Standup', SETTINGS, 'Alice'));
+    await as('bob', () => bob.joinRoom(room.id, 'Bob'));
+    await as('alice', () => alice.removeParticipant('bob'));
+
+    expect(await accessError(as('bob', () => bob.joinRoom(room.id, 'Bob')))).toBe('removed');
+  });
+
+  it('keeps a denied request from being withdrawn and asked again', async () => {
+    const room = await as('alice', () => alice.createRoom('Lobby', { ...SETTINGS, waitingRoom: true }, 'Alice'));
+    const joined = await as('bob', () => bob.joinRoom(room.id, 'Bob'));
+    expect(joined.admission).toBe('pending');
+
+    await as('alice', () => alice.denyParticipant('bob'));
+    await as('bob', () => bob.leaveRoom());
+
+    expect(await accessError(as('bob', () => bob.joinRoom(room.id, 'Bob')))).toBe('denied');
+  });
+
+  it('leaves pruning stale participants to the host', async () => {
+    const room = await as('alice', () => alice.createRoom('Standup', SETTINGS, 'Alice'));
+    await as('bob', () => bob.joinRoom(room.id, 'Bob'));
+    await as('carol', () => new SignalingService(new MemoryTransport()).joinRoom(room.id, 'Carol'));
+    // Carol's heartbeats stopped long ago
+    await new MemoryTransport().updateParticipant(room.id, 'carol', { lastSeen: 0 });
+    const leaveRoom = vi.spyOn(MemoryTransport.prototype, 'leaveRoom');
+
+    const seenByBob: string[][] = [];
+    as('bob', () => bob.onParticipants(room.id, participants => seenByBob.push(participants.map(p => p.id))));
+    await flush();
+    expect(seenByBob.at(-1)).toEqual(['alice', 'bob']);
+    expect(leaveRoom).not.toHaveBeenCalled();
+
+    as('alice', () => alice.onParticipants(room.id, () => {}));
+    await flush();
+    expect(leaveRoom).toHaveBeenCalledTimes(1);
+    expect(leaveRoom).toHaveBeenCalledWith(room.id, 'carol');
+  });
+
+  it('delivers offers and answers in the order they were sent', async () => {
+    const room = await as('alice', () => alice.createRoom('Standup', SETTINGS, 'Alice'));
+    await as('bob', () => bob.joinRoom(room.id, 'Bob'));
+    // Alice learns Bob's session from the participant list
+    as('alice', () => alice.onParticipants(room.id, () => {}));
+    await flush();
+
+    const toBob: SignalingData[] = [];
+    const toAlice: SignalingData[] = [];
+    bob.onAllSignaling(room.id, 'bob', (_, data) => toBob.push(data));
+    alice.onAllSignaling(room.id, 'alice', (_, data) => toAlice.push(data));
+
+    await alice.sendOffer(room.id, 'alice', 'bob', { type: 'offer', sdp: 'first' });
+    await alice.sendOffer(room.id, 'alice', 'bob', { type: 'offer', sdp: 'renegotiation' });
+    await flush();
+    expect(toBob.map(data => data.offer?.sdp)).toEqual(['first', 'renegotiation']);
+
+    // Bob answers the session the offers came from
+    await bob.sendAnswer(room.id, 'bob', 'alice', { type: 'answer', sdp: 'answer' });
+    await flush();
+    expect(toAlice.map(data => data.answer?.sdp)).toEqual(['answer']);
+  });
+
+  it('grants the floor to exactly one of two simultaneous claims', async () => {
+    const room = await as('alice', () => alice.createRoom('Walkie', SETTINGS, 'Alice'));
+    await as('bob', () => bob.joinRoom(room.id, 'Bob'));
+
+    const claims = [as('alice', () => alice.requestFloor()), as('bob', () => bob.requestFloor())];
+    const granted = await Promise.all(claims);
+
+    expect(granted.filter(Boolean)).toHaveLength(1);
+    expect((await roomState(room.id))?.floor?.holderId).toBe(granted[0] ? 'alice' : 'bob');
+  });
+});
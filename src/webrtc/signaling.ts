@@ -1,27 +1,18 @@
 /**
  * WebRTC Signaling Service
- * Handles room creation, joining, and participant management via Firebase
+ * Handles room creation, joining, and participant management through a
+ * pluggable transport (Firebase by default, see SIGNALING_CONFIG)
  */
 
-import { 
-  collection, 
-  doc, 
-  addDoc, 
-  getDoc,
-  getDocs,
-  setDoc,
-  onSnapshot, 
-  updateDoc,
-  deleteDoc,
-  serverTimestamp,
-  arrayUnion,
-  arrayRemove,
-  query,
-  orderBy,
-  where
-} from 'firebase/firestore';
-import { db } from '../firebase/config';
 import { authService } from '../firebase/auth';
+import { createSignalingTransport, RoomAccessError, type SignalingTransport } from './transports';
+import { PRESENCE_CONFIG, FLOOR_CONFIG } from './config';
+import { isParticipantStale, toMillis } from './presence';
+import { createSessionId, isCurrentSignal } from './sessions';
+import { hashPin } from './pin';
+
+// Opus tuning for the whole room, see AUDIO_PROFILES
+export type AudioProfile = 'standard' | 'low-bandwidth' | 'high-fidelity';
 
 export interface RoomData {
   id: string;
@@ -30,11 +21,37 @@ export interface RoomData {
   settings: {
     pushToTalk: boolean;
     transcription: boolean;
+    // Joining requires a PIN; only a hash of it is stored, outside the room document
+    pinProtected?: boolean;
+    // New participants wait until the host admits them
+    waitingRoom?: boolean;
+    // Only the presenter sends audio; everyone else just listens
+    presenterMode?: boolean;
+    // Missing means 'standard'
+    audioProfile?: AudioProfile;
+    // With push to talk, only one participant may hold the floor at a time
+    exclusiveFloor?: boolean;
   };
   url: string;
   isActive: boolean;
+  // Set by the host to stop new participants from joining
+  locked?: boolean;
   createdAt?: any;
   hostId?: string;
+  // Participant the host picked to take over when they leave
+  coHostId?: string | null;
+  // The one participant who speaks while settings.presenterMode is on
+  presenterId?: string | null;
+  // Participant IDs with a raised hand, in the order they raised it
+  raisedHands?: string[];
+  // Who holds the push-to-talk floor while settings.exclusiveFloor is on
+  floor?: FloorGrant | null;
+}
+
+export interface FloorGrant {
+  holderId: string;
+  // Epoch millis on the holder's clock; an expired grant counts as a free floor
+  expiresAt: number;
 }
 
 export interface Participant {
@@ -44,17 +61,71 @@ export interface Participant {
   isMuted: boolean;
   isPresenter: boolean;
   isSpeaking?: boolean;
+  // Joined without a microphone; receives audio and captions only
+  listenOnly?: boolean;
+  // New on every visit to the room, see sessions.ts
+  sessionId?: string;
   joinedAt?: any;
+  // Refreshed every PRESENCE_CONFIG.heartbeatInterval while the client is in the room
+  lastSeen?: any;
+}
+
+export interface ModerationCommand {
+  id: string;
+  // call-on: the host gave the floor to the first raised hand
+  type: 'remove' | 'mute' | 'call-on';
+  // null addresses everyone in the room
+  targetId: string | null;
+  issuedBy: string;
+  timestamp?: any;
+}
+
+export interface AdmissionRequest {
+  id: string;
+  name: string;
+  status: 'pending' | 'admitted' | 'denied';
+  requestedAt?: any;
+}
+
+// Settings the host can change while the room is running
+export type EditableRoomSettings = Pick<RoomData['settings'], 'pushToTalk' | 'transcription' | 'presenterMode' | 'audioProfile' | 'exclusiveFloor'>;
+
+export interface RoomAuditEntry {
+  id: string;
+  type: 'settings';
+  changedBy: string;
+  changedByName: string;
+  // Only the settings that actually changed, with their new values
+  changes: Partial<EditableRoomSettings>;
+  timestamp?: any;
+}
+
+export interface JoinRoomResult {
+  room: RoomData;
+  // 'pending' when the room has a waiting room and the host has not admitted us yet
+  admission: 'admitted' | 'pending';
 }
 
 export type ParticipantUpdateCallback = (participants: Participant[]) => void;
 export type RoomUpdateCallback = (room: RoomData | null) => void;
+export type ModerationCommandCallback = (command: ModerationCommand) => void;
+export type AdmissionRequestsCallback = (requests: AdmissionRequest[]) => void;
+export type AdmissionStatusCallback = (status: AdmissionRequest['status'] | null) => void;
+export type AuditLogCallback = (entries: RoomAuditEntry[]) => void;
 export type SignalingCallback = (data: SignalingData) => void;
 
-export interface SignalingData {
+// Sessions at both ends of a signaling message, see sessions.ts
+export interface SignalingSessions {
+  fromSessionId: string | null;
+  // null while the sender does not know the recipient's session yet
+  toSessionId: string | null;
+}
+
+export interface SignalingData extends Partial<SignalingSessions> {
   offer?: RTCSessionDescriptionInit;
   answer?: RTCSessionDescriptionInit;
-  iceCandidates: RTCIceCandidateInit[];
+  // Only candidates that are new since the last delivery
+  iceCandidates?: RTCIceCandidateInit[];
   timestamp: any;
 }
 
@@ -64,25 +135,36 @@ class SignalingService {
   private onParticipantsCallback: ParticipantUpdateCallback | null = null;
   private onRoomCallback: RoomUpdateCallback | null = null;
   private unsubscribeCallbacks: (() => void)[] = [];
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private pageHideHandler: (() => void) | null = null;
+  // Stale participants we already asked the transport to remove
+  private prunedParticipants: Set<string> = new Set();
+  // Set while we try to take over from a host that vanished
+  private claimingHost = false;
+  // This visit's session, stamped on everything we signal
+  private sessionId: string | null = null;
+  // Sessions learned from messages of participants we have no record for yet
+  private peerSessionIds: Map<string, string> = new Map();
+  // Set while we sit in a room's waiting room
+  private pendingAdmission: { roomId: string; userId: string; name: string } | null = null;
+
+  constructor(private transport: SignalingTransport = createSignalingTransport()) {}
+
+  /**
+   * Swap the signaling backend (e.g. the in-memory transport in tests)
+   */
+  setTransport(transport: SignalingTransport): void {
+    this.transport = transport;
+  }
 
   /**
-   * Create a new room
+   * Create a new room, optionally protected by a PIN
    */
-  async createRoom(name: string, settings: RoomData['settings'], hostName: string = 'You'): Promise<RoomData> {
+  async createRoom(name: string, settings: RoomData['settings'], hostName: string = 'You', pin?: string): Promise<RoomData> {
     try {
       console.log('🏠 Creating room:', name);
       
-      // Ensure user is authenticated
-      if (!authService.isAuthenticated()) {
-        console.log('🔐 User not authenticated, signing in anonymously...');
-        await authService.signInAnonymously();
-      }
-
-      const userId = authService.getCurrentUserId();
-      if (!userId) {
-        console.error('❌ User not authenticated after sign in');
-        throw new Error('User not authenticated');
-      }
+      const userId = await this.ensureAuthenticated();
 
       // Generate room ID
       const roomId = this.generateRoomId();
@@ -92,26 +174,20 @@ class SignalingService {
         id: roomId,
         name,
         host: true,
-        settings,
+        settings: { ...settings, pinProtected: !!pin },
         url: `${window.location.origin}?room=${roomId}`,
         isActive: true,
-        createdAt: serverTimestamp(),
-        hostId: userId
+        hostId: userId,
+        presenterId: settings.presenterMode ? userId : null
       };
 
-      // Create room document in Firebase
-      console.log('📝 Saving room to Firebase...');
-      console.log('📝 Room data to save:', roomData);
-      const roomRef = doc(db, 'rooms', roomId);
-      await setDoc(roomRef, roomData as any);
-      console.log('✅ Room document saved to Firebase');
-
-      // Add host as first participant
-      console.log('👑 Adding host as first participant...');
-      await this.addParticipant(roomId, userId, hostName, true);
-      console.log('✅ Host added as participant');
+      const pinHash = pin ? await hashPin(roomId, pin) : undefined;
+      this.startSession();
+      const host = { ...this.buildParticipant(userId, hostName, true), isPresenter: !!settings.presenterMode };
+      await this.transport.createRoom(roomData, host, pinHash);
 
       this.currentRoom = roomData;
+      this.startPresence(roomId, userId);
       this.notifyRoomUpdate();
       console.log('✅ Room created successfully:', roomId);
       return roomData;
@@ -122,51 +198,45 @@ class SignalingService {
   }
 
   /**
-   * Join an existing room by room ID
+   * Join an existing room by room ID.
+   * Rejects with a RoomAccessError when the room is locked, needs a PIN that was missing or wrong,
+   * or the host denied our admission request.
+   * In rooms with a waiting room this only asks for admission and resolves with admission 'pending':
+   * see onAdmission.
    */
-  async joinRoom(roomId: string, participantName: string = 'Participant'): Promise<RoomData> {
+  async joinRoom(roomId: string, participantName: string = 'Participant', pin?: string): Promise<JoinRoomResult> {
     try {
       console.log('🚪 Joining room:', roomId, 'as:', participantName);
-      // Ensure user is authenticated
-      if (!authService.isAuthenticated()) {
-        console.log('🔐 User not authenticated, signing in anonymously...');
-        await authService.signInAnonymously();
-      }
-
-      const userId = authService.getCurrentUserId();
-      if (!userId) {
-        console.error('❌ User not authenticated after sign in');
-        throw new Error('User not authenticated');
-      }
-
+      const userId = await this.ensureAuthenticated();
       console.log('👤 User ID:', userId);
-      // Check if room exists
-      console.log('🔍 Fetching room data from Firebase...');
-      const roomRef = doc(db, 'rooms', roomId.toUpperCase());
-      const roomSnap = await getDoc(roomRef);
-      
-      if (!roomSnap.exists()) {
-        console.error('❌ Room not found:', roomId);
-        throw new Error('Room not found');
-      }
 
-      const roomData = { ...roomSnap.data(), id: roomId.toUpperCase() } as RoomData;
-      
-      // Check if user is already a participant
-      const participantRef = doc(db, 'rooms', roomId.toUpperCase(), 'participants', userId);
-      const participantSnap = await getDoc(participantRef);
-      
-      if (!participantSnap.exists()) {
-        // Add participant to room
-        await this.addParticipant(roomId.toUpperCase(), userId, participantName, false);
-      }
+      const normalizedRoomId = roomId.toUpperCase();
+      const pinHash = pin ? await hashPin(normalizedRoomId, pin) : undefined;
+      this.startSession();
+      const result = await this.transport.joinRoom(
+        normalizedRoomId,
+        this.buildParticipant(userId, participantName, false),
+        pinHash
+      );
+      const roomData = result.room;
       
       this.currentRoom = roomData;
+      if (result.admission === 'pending') {
+        this.pendingAdmission = { roomId: roomData.id, userId, name: participantName };
+        console.log('⏳ Waiting for the host to admit us to room:', roomId);
+        return result;
+      }
+
+      this.pendingAdmission = null;
+      this.startPresence(roomData.id, userId);
       this.notifyRoomUpdate();
       console.log('✅ Successfully joined room:', roomId);
-      return roomData;
+      return result;
     } catch (error) {
       console.error('Failed to join room:', error);
+      if (error instanceof RoomAccessError) {
+        throw error;
+      }
       throw new Error('Failed to join room');
     }
   }
@@ -177,15 +247,27 @@ class SignalingService {
   async leaveRoom(): Promise<void> {
     if (!this.currentRoom) return;
 
+    this.stopPresence();
+
+    if (this.pendingAdmission) {
+      // Never got in: just withdraw the request
+      const { roomId, userId } = this.pendingAdmission;
+      this.pendingAdmission = null;
+      this.currentRoom = null;
+      await this.transport.deleteAdmissionRequest(roomId, userId).catch(error => {
+        console.error('Failed to withdraw admission request:', error);
+      });
+      return;
+    }
+
     try {
       const userId = authService.getCurrentUserId();
+      if (userId && this.isHost()) {
+        await this.handOverHost(this.currentRoom, userId);
+      }
       if (userId) {
-        // Remove participant from Firebase
-        const participantRef = doc(db, 'rooms', this.currentRoom.id, 'participants', userId);
-        await deleteDoc(participantRef);
-        
-        // Check if room should be deactivated
-        await this.checkAndDeactivateRoom(this.currentRoom.id);
+        // Remove participant and deactivate the room if it is now empty
+        await this.transport.leaveRoom(this.currentRoom.id, userId);
       }
       
       this.currentRoom = null;
@@ -206,13 +288,25 @@ class SignalingService {
     if (!this.currentRoom) return;
 
     try {
-      const participantRef = doc(db, 'rooms', this.currentRoom.id, 'participants', participantId);
-      await updateDoc(participantRef, { isMuted });
+      await this.transport.updateParticipant(this.currentRoom.id, participantId, { isMuted });
     } catch (error) {
       console.error('Failed to update mute status:', error);
     }
   }
 
+  /**
+   * Mark a participant as listen-only, or back to speaking
+   */
+  async updateParticipantListenOnly(participantId: string, listenOnly: boolean): Promise<void> {
+    if (!this.currentRoom) return;
+
+    try {
+      await this.transport.updateParticipant(this.currentRoom.id, participantId, { listenOnly });
+    } catch (error) {
+      console.error('Failed to update listen-only status:', error);
+    }
+  }
+
   /**
    * Update participant speaking status
    */
@@ -220,8 +314,7 @@ class SignalingService {
     if (!this.currentRoom) return;
 
     try {
-      const participantRef = doc(db, 'rooms', this.currentRoom.id, 'participants', participantId);
-      await updateDoc(participantRef, { isSpeaking });
+      await this.transport.updateParticipant(this.currentRoom.id, participantId, { isSpeaking });
     } catch (error) {
       console.error('Failed to update speaking status:', error);
     }
@@ -233,8 +326,7 @@ class SignalingService {
   async updateParticipantName(roomId: string, participantId: string, displayName: string): Promise<void> {
     try {
       console.log('📝 Updating participant name:', participantId, 'to:', displayName);
-      const participantRef = doc(db, 'rooms', roomId, 'participants', participantId);
-      await updateDoc(participantRef, { name: displayName });
+      await this.transport.updateParticipant(roomId, participantId, { name: displayName });
       console.log('✅ Participant name updated successfully');
     } catch (error) {
       console.error('Failed to update participant name:', error);
@@ -242,6 +334,341 @@ class SignalingService {
     }
   }
 
+  /**
+   * Whether the current user is the host of the current room
+   */
+  isHost(): boolean {
+    const userId = this.getCurrentUserId();
+    return !!userId && this.currentRoom?.hostId === userId;
+  }
+
+  /**
+   * Remove a participant from the room (host only).
+   * They are told to leave first, then their participant record and membership are deleted.
+   */
+  async removeParticipant(participantId: string): Promise<void> {
+    const room = this.requireHost('remove participants');
+
+    try {
+      await this.transport.sendModerationCommand(room.id, { type: 'remove', targetId: participantId, issuedBy: room.hostId! });
+      await this.transport.removeParticipant(room.id, participantId);
+      console.log('✅ Removed participant:', participantId);
+    } catch (error) {
+      console.error('Failed to remove participant:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask one participant, or everyone when participantId is null, to mute (host only)
+   */
+  async requestMute(participantId: string | null): Promise<void> {
+    const room = this.requireHost('mute participants');
+
+    try {
+      await this.transport.sendModerationCommand(room.id, { type: 'mute', targetId: participantId, issuedBy: room.hostId! });
+    } catch (error) {
+      console.error('Failed to request mute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lock or unlock the room against new joins (host only)
+   */
+  async setRoomLocked(locked: boolean): Promise<void> {
+    const room = this.requireHost('lock the room');
+
+    try {
+      await this.transport.updateRoom(room.id, { locked });
+      this.currentRoom = { ...room, locked };
+      this.notifyRoomUpdate();
+    } catch (error) {
+      console.error('Failed to update room lock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the last joinRoom is still waiting for the host to admit us
+   */
+  isAwaitingAdmission(): boolean {
+    return this.pendingAdmission !== null;
+  }
+
+  /**
+   * Set the name the host sees in the waiting room (and that we join with)
+   */
+  async updateAdmissionName(name: string): Promise<void> {
+    if (!this.pendingAdmission) return;
+
+    const { roomId, userId } = this.pendingAdmission;
+    this.pendingAdmission.name = name;
+    try {
+      await this.transport.updateAdmissionRequest(roomId, userId, name);
+    } catch (error) {
+      console.error('Failed to update admission request:', error);
+    }
+  }
+
+  /**
+   * Wait for the host's decision on our admission request.
+   * Once admitted, the join is completed before the callback runs.
+   */
+  onAdmission(callback: (result: 'admitted' | 'denied') => void): () => void {
+    if (!this.pendingAdmission) {
+      throw new Error('No pending admission request');
+    }
+
+    const { roomId, userId } = this.pendingAdmission;
+    let settled = false;
+
+    const unsubscribe = this.transport.onAdmissionStatus(roomId, userId, async (status) => {
+      if (settled || !this.pendingAdmission || status === 'pending') return;
+      settled = true;
+
+      if (status !== 'admitted') {
+        this.pendingAdmission = null;
+        this.currentRoom = null;
+        callback('denied');
+        return;
+      }
+
+      try {
+        const { room } = await this.transport.joinRoom(roomId, this.buildParticipant(userId, this.pendingAdmission.name, false));
+        this.pendingAdmission = null;
+        this.currentRoom = room;
+        this.startPresence(roomId, userId);
+        this.notifyRoomUpdate();
+        console.log('✅ Admitted to room:', roomId);
+        callback('admitted');
+      } catch (error) {
+        console.error('Failed to join after admission:', error);
+        settled = false;
+      }
+    });
+
+    return unsubscribe;
+  }
+
+  /**
+   * Subscribe to the waiting room queue (host only)
+   */
+  onAdmissionRequests(callback: AdmissionRequestsCallback): () => void {
+    const room = this.requireHost('manage the waiting room');
+    return this.transport.onAdmissionRequests(room.id, callback);
+  }
+
+  /**
+   * Admit a waiting user into the room (host only)
+   */
+  async admitParticipant(userId: string): Promise<void> {
+    const room = this.requireHost('admit participants');
+    await this.transport.resolveAdmissionRequest(room.id, userId, true);
+  }
+
+  /**
+   * Turn a waiting user away (host only)
+   */
+  async denyParticipant(userId: string): Promise<void> {
+    const room = this.requireHost('deny participants');
+    await this.transport.resolveAdmissionRequest(room.id, userId, false);
+  }
+
+  /**
+   * Make another participant the host (host only)
+   */
+  async transferHost(participantId: string): Promise<void> {
+    const room = this.requireHost('transfer the host role');
+
+    try {
+      const updates = this.hostUpdates(room, participantId);
+      await this.transport.updateRoom(room.id, updates);
+      this.currentRoom = { ...room, ...updates };
+      this.notifyRoomUpdate();
+    } catch (error) {
+      console.error('Failed to transfer host:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pick the participant who takes over when the host leaves, or clear it (host only)
+   */
+  async setCoHost(participantId: string | null): Promise<void> {
+    const room = this.requireHost('choose a co-host');
+
+    try {
+      await this.transport.updateRoom(room.id, { coHostId: participantId });
+      this.currentRoom = { ...room, coHostId: participantId };
+      this.notifyRoomUpdate();
+    } catch (error) {
+      console.error('Failed to set co-host:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change settings of the running room and record who changed what (host only).
+   * Every client picks the new settings up through onRoomUpdate.
+   */
+  async updateRoomSettings(updates: Partial<EditableRoomSettings>): Promise<void> {
+    const room = this.requireHost('change room settings');
+    const userId = this.getCurrentUserId()!;
+
+    const changes = Object.fromEntries(
+      Object.entries(updates).filter(([key, value]) => value !== undefined && value !== room.settings[key as keyof EditableRoomSettings])
+    ) as Partial<EditableRoomSettings>;
+    if (Object.keys(changes).length === 0) return;
+
+    try {
+      const settings = { ...room.settings, ...changes };
+      const updates: Partial<RoomData> = { settings };
+      if (changes.presenterMode && !room.presenterId) {
+        // The host presents until they hand the role to someone else
+        updates.presenterId = userId;
+      }
+      await this.transport.updateRoom(room.id, updates);
+      this.currentRoom = { ...room, ...updates };
+      this.notifyRoomUpdate();
+
+      const changedByName = this.participants.find(p => p.id === userId)?.name || 'Host';
+      await this.transport.addAuditEntry(room.id, { type: 'settings', changedBy: userId, changedByName, changes });
+      console.log('✅ Room settings updated:', changes);
+    } catch (error) {
+      console.error('Failed to update room settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the current room is in presenter mode
+   */
+  isPresenterMode(): boolean {
+    return !!this.currentRoom?.settings?.presenterMode;
+  }
+
+  /**
+   * Hand the presenter role to a participant (host only)
+   */
+  async setPresenter(participantId: string): Promise<void> {
+    const room = this.requireHost('choose the presenter');
+
+    try {
+      await this.transport.updateRoom(room.id, { presenterId: participantId });
+      this.currentRoom = { ...room, presenterId: participantId };
+      this.notifyRoomUpdate();
+    } catch (error) {
+      console.error('Failed to set presenter:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Raised hands in queue order, leaving out anyone no longer in the room
+   */
+  getRaisedHands(room: RoomData | null = this.currentRoom): string[] {
+    return (room?.raisedHands || []).filter(id => this.participants.some(p => p.id === id));
+  }
+
+  /**
+   * Join the end of the raised-hands queue
+   */
+  async raiseHand(): Promise<void> {
+    const userId = this.getCurrentUserId();
+    if (!this.currentRoom || !userId) {
+      throw new Error('Not in a room');
+    }
+    await this.transport.raiseHand(this.currentRoom.id, userId);
+  }
+
+  /**
+   * Lower our own hand, or anyone's when we are the host
+   */
+  async lowerHand(participantId?: string): Promise<void> {
+    const userId = this.getCurrentUserId();
+    const targetId = participantId ?? userId;
+    if (!this.currentRoom || !targetId) {
+      throw new Error('Not in a room');
+    }
+    const room = targetId === userId ? this.currentRoom : this.requireHost("lower other participants' hands");
+    await this.transport.lowerHand(room.id, targetId);
+  }
+
+  /**
+   * Lower every raised hand (host only)
+   */
+  async lowerAllHands(): Promise<void> {
+    const room = this.requireHost('lower hands');
+    await this.transport.updateRoom(room.id, { raisedHands: [] });
+  }
+
+  /**
+   * Give the floor to the first raised hand and take it out of the queue (host only).
+   * Returns who was called on, or null when no hand is raised.
+   */
+  async callOnNext(): Promise<Participant | null> {
+    const room = this.requireHost('call on participants');
+    const nextId = this.getRaisedHands(room)[0];
+    const next = this.participants.find(p => p.id === nextId);
+    if (!next) return null;
+
+    try {
+      await this.transport.lowerHand(room.id, next.id);
+      await this.transport.sendModerationCommand(room.id, { type: 'call-on', targetId: next.id, issuedBy: room.hostId! });
+      return next;
+    } catch (error) {
+      console.error('Failed to call on participant:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask for the push-to-talk floor; resolves whether we hold it. Granted only
+   * when nobody else holds an unexpired one.
+   */
+  async requestFloor(): Promise<boolean> {
+    const userId = this.getCurrentUserId();
+    if (!this.currentRoom || !userId) {
+      throw new Error('Not in a room');
+    }
+    return this.transport.claimFloor(this.currentRoom.id, userId, Date.now() + FLOOR_CONFIG.maxHoldTime);
+  }
+
+  /**
+   * Give the push-to-talk floor back (no-op unless we hold it)
+   */
+  async releaseFloor(): Promise<void> {
+    const userId = this.getCurrentUserId();
+    if (!this.currentRoom || !userId) return;
+
+    try {
+      await this.transport.releaseFloor(this.currentRoom.id, userId);
+    } catch (error) {
+      console.error('Failed to release the floor:', error);
+    }
+  }
+
+  /**
+   * Subscribe to the room's audit log, oldest entry first
+   */
+  onAuditLog(roomId: string, callback: AuditLogCallback): () => void {
+    return this.transport.onAuditLog(roomId, callback);
+  }
+
+  /**
+   * Subscribe to moderation commands addressed to the current user
+   */
+  onModerationCommands(roomId: string, callback: ModerationCommandCallback): () => void {
+    return this.transport.onModerationCommands(roomId, (command) => {
+      const userId = this.getCurrentUserId();
+      if (command.issuedBy === userId) return;
+      if (command.targetId === null || command.targetId === userId) {
+        callback(command);
+      }
+    });
+  }
+
   /**
    * Get current user ID
    */
@@ -250,34 +677,42 @@ class SignalingService {
   }
 
   /**
-   * Subscribe to participant updates
+   * Subscribe to participant updates.
+   * Participants whose heartbeat has gone stale are left out and pruned.
    */
   onParticipants(roomId: string, callback: ParticipantUpdateCallback): () => void {
-    const participantsRef = collection(db, 'rooms', roomId, 'participants');
-    const q = query(participantsRef, orderBy('joinedAt', 'asc'));
-    
-    const unsubscribe = onSnapshot(q, 
-      (snapshot) => {
-        try {
-          const participants = snapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-          })) as Participant[];
-          
-          this.participants = participants;
-          this.onParticipantsCallback = callback;
-          callback(participants);
-        } catch (error) {
-          console.error('Error processing participant updates:', error);
-        }
-      },
-      (error) => {
-        console.error('Error in participant subscription:', error);
-        // Don't call callback on error to prevent infinite loops
+    let latest: Participant[] = [];
+    let lastLiveIds = '';
+
+    const emit = () => {
+      const live = this.filterLiveParticipants(roomId, latest);
+      lastLiveIds = live.map(p => p.id).join(',');
+      this.participants = live;
+      this.onParticipantsCallback = callback;
+      callback(live);
+      this.claimHostIfVacant(latest, live);
+      if (this.currentRoom) {
+        this.syncRoleFlags(this.currentRoom);
       }
-    );
+    };
 
-    return unsubscribe;
+    const unsubscribe = this.transport.onParticipants(roomId, (participants) => {
+      latest = participants;
+      emit();
+    });
+
+    // A participant that silently vanished produces no update, so re-check on a timer
+    const sweep = setInterval(() => {
+      const liveIds = latest.filter(p => this.isLiveParticipant(p)).map(p => p.id).join(',');
+      if (liveIds !== lastLiveIds) {
+        emit();
+      }
+    }, PRESENCE_CONFIG.heartbeatInterval);
+
+    return () => {
+      clearInterval(sweep);
+      unsubscribe();
+    };
   }
 
   /**
@@ -285,32 +720,16 @@ class SignalingService {
    */
   onRoomUpdate(roomId: string, callback: RoomUpdateCallback): () => void {
     console.log('📡 Setting up room update listener for room:', roomId);
-    const roomRef = doc(db, 'rooms', roomId);
-    
-    const unsubscribe = onSnapshot(roomRef, 
-      (doc) => {
-        try {
-          console.log('📡 Room update received for room:', roomId, 'exists:', doc.exists());
-          if (doc.exists()) {
-            const roomData = { ...doc.data(), id: doc.id } as RoomData;
-            console.log('📡 Room data:', roomData);
-            this.currentRoom = roomData;
-            this.onRoomCallback = callback;
-            callback(roomData);
-          } else {
-            console.log('❌ Room document does not exist, calling callback with null');
-            callback(null);
-          }
-        } catch (error) {
-          console.error('Error processing room updates:', error);
-        }
-      },
-      (error) => {
-        console.error('Error in room subscription:', error);
-      }
-    );
 
-    return unsubscribe;
+    return this.transport.onRoom(roomId, (roomData) => {
+      if (roomData) {
+        console.log('📡 Room data:', roomData);
+        this.currentRoom = roomData;
+        this.onRoomCallback = callback;
+        this.syncRoleFlags(roomData);
+      }
+      callback(roomData);
+    });
   }
 
   /**
@@ -327,6 +746,211 @@ class SignalingService {
     return this.participants;
   }
 
+  /**
+   * Sign in anonymously if needed and return the current user ID
+   */
+  private async ensureAuthenticated(): Promise<string> {
+    if (!authService.isAuthenticated()) {
+      console.log('🔐 User not authenticated, signing in anonymously...');
+      await authService.signInAnonymously();
+    }
+
+    const userId = authService.getCurrentUserId();
+    if (!userId) {
+      console.error('❌ User not authenticated after sign in');
+      throw new Error('User not authenticated');
+    }
+    return userId;
+  }
+
+  /**
+   * Drop stale participants from a list. Only one client asks the transport
+   * to remove them (see isPruner); removal goes through leaveRoom, so the
+   * room is deactivated once no live participant is left.
+   */
+  private filterLiveParticipants(roomId: string, participants: Participant[]): Participant[] {
+    const now = Date.now();
+    const live = participants.filter(participant => this.isLiveParticipant(participant, now));
+    live.forEach(participant => this.prunedParticipants.delete(participant.id));
+    if (!this.isPruner(live)) return live;
+
+    participants
+      .filter(participant => !live.includes(participant) && !this.prunedParticipants.has(participant.id))
+      .forEach(participant => {
+        this.prunedParticipants.add(participant.id);
+        this.transport.leaveRoom(roomId, participant.id).catch(error => {
+          console.error('Failed to prune stale participant:', error);
+          this.prunedParticipants.delete(participant.id);
+        });
+      });
+
+    return live;
+  }
+
+  /**
+   * The one client that removes stale participants: the host while they are
+   * live, otherwise whoever would succeed them
+   */
+  private isPruner(liveParticipants: Participant[]): boolean {
+    const room = this.currentRoom;
+    const userId = this.getCurrentUserId();
+    if (!room || !userId) return false;
+    if (liveParticipants.some(p => p.id === room.hostId)) return room.hostId === userId;
+    return this.pickSuccessor(room, liveParticipants, room.hostId)?.id === userId;
+  }
+
+  /**
+   * Deterministic host succession: the co-host if they are still here,
+   * otherwise the participant who joined earliest (ties broken by ID)
+   */
+  private pickSuccessor(room: RoomData, participants: Participant[], excludeId: string): Participant | null {
+    const candidates = participants.filter(p => p.id !== excludeId);
+    const coHost = candidates.find(p => p.id === room.coHostId);
+    if (coHost) return coHost;
+
+    return candidates
+      .slice()
+      .sort((a, b) => ((toMillis(a.joinedAt) ?? 0) - (toMillis(b.joinedAt) ?? 0)) || a.id.localeCompare(b.id))[0] || null;
+  }
+
+  /**
+   * Room fields for making participantId the host
+   */
+  private hostUpdates(room: RoomData, participantId: string): Partial<RoomData> {
+    return {
+      hostId: participantId,
+      // A co-host who becomes host no longer needs the role
+      coHostId: room.coHostId === participantId ? null : room.coHostId ?? null
+    };
+  }
+
+  /**
+   * Room fields for a successor taking over from a host who left.
+   * A host who was presenting passes that role on too, so the room is not left silent.
+   */
+  private successionUpdates(room: RoomData, participantId: string): Partial<RoomData> {
+    const updates = this.hostUpdates(room, participantId);
+    if (room.presenterId && room.presenterId === room.hostId) {
+      updates.presenterId = participantId;
+    }
+    return updates;
+  }
+
+  /**
+   * Pass the host role on before the host leaves
+   */
+  private async handOverHost(room: RoomData, hostId: string): Promise<void> {
+    const successor = this.pickSuccessor(room, this.participants, hostId);
+    if (!successor) return;
+
+    try {
+      console.log('👑 Handing host over to:', successor.id);
+      await this.transport.updateRoom(room.id, this.successionUpdates(room, successor.id));
+    } catch (error) {
+      console.error('Failed to hand over host:', error);
+    }
+  }
+
+  /**
+   * Take over as host when the host's participant record is gone (crashed or
+   * pruned) and we are next in line. Every client runs the same succession
+   * rule, so only one of them claims.
+   */
+  private claimHostIfVacant(allParticipants: Participant[], liveParticipants: Participant[]): void {
+    const room = this.currentRoom;
+    const userId = this.getCurrentUserId();
+    if (!room?.hostId || !userId || this.claimingHost || room.hostId === userId) return;
+    if (allParticipants.length === 0 || allParticipants.some(p => p.id === room.hostId)) return;
+
+    const successor = this.pickSuccessor(room, liveParticipants, room.hostId);
+    if (successor?.id !== userId) return;
+
+    this.claimingHost = true;
+    console.log('👑 Host is gone, taking over room:', room.id);
+    const updates = this.successionUpdates(room, userId);
+    this.transport.updateRoom(room.id, updates)
+      .then(() => {
+        this.currentRoom = { ...room, ...updates };
+        this.notifyRoomUpdate();
+      })
+      .catch(error => console.error('Failed to take over as host:', error))
+      .finally(() => {
+        this.claimingHost = false;
+      });
+  }
+
+  /**
+   * Keep our own participant isHost and isPresenter flags in line with the room
+   */
+  private syncRoleFlags(room: RoomData): void {
+    const userId = this.getCurrentUserId();
+    const self = this.participants.find(p => p.id === userId);
+    if (!userId || !self) return;
+
+    const isHost = room.hostId === userId;
+    const isPresenter = !!room.settings?.presenterMode && room.presenterId === userId;
+    if (self.isHost !== isHost || self.isPresenter !== isPresenter) {
+      this.transport.updateParticipant(room.id, userId, { isHost, isPresenter }).catch(error => {
+        console.error('Failed to update role flags:', error);
+      });
+    }
+  }
+
+  /**
+   * Return the current room, or throw unless the current user hosts it
+   */
+  private requireHost(action: string): RoomData {
+    if (!this.currentRoom || !this.isHost()) {
+      throw new Error(`Only the host can ${action}`);
+    }
+    return this.currentRoom;
+  }
+
+  /**
+   * Never treat ourselves as stale: a missed heartbeat of our own is a local network problem
+   */
+  private isLiveParticipant(participant: Participant, now: number = Date.now()): boolean {
+    return participant.id === this.getCurrentUserId() || !isParticipantStale(participant, now);
+  }
+
+  /**
+   * Start writing lastSeen heartbeats and leave on pagehide
+   */
+  private startPresence(roomId: string, userId: string): void {
+    this.stopPresence();
+
+    const beat = () => {
+      this.transport.heartbeat(roomId, userId).catch(error => {
+        console.error('Failed to send heartbeat:', error);
+      });
+    };
+    beat();
+    this.heartbeatInterval = setInterval(beat, PRESENCE_CONFIG.heartbeatInterval);
+
+    // Best effort only: the page may be gone before the write completes,
+    // in which case the stale heartbeat cleans up after us
+    this.pageHideHandler = () => {
+      this.stopPresence();
+      this.transport.leaveRoom(roomId, userId).catch(() => {});
+    };
+    window.addEventListener('pagehide', this.pageHideHandler);
+  }
+
+  /**
+   * Stop heartbeats and the pagehide listener
+   */
+  private stopPresence(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+    if (this.pageHideHandler) {
+      window.removeEventListener('pagehide', this.pageHideHandler);
+      this.pageHideHandler = null;
+    }
+    this.prunedParticipants.clear();
+  }
+
   /**
    * Generate a room ID
    */
@@ -340,43 +964,34 @@ class SignalingService {
   }
 
   /**
-   * Add a participant to a room
+   * Build the participant record for a user entering a room
    */
-  private async addParticipant(roomId: string, userId: string, name: string, isHost: boolean): Promise<void> {
-    const participantData: Participant = {
+  private buildParticipant(userId: string, name: string, isHost: boolean): Participant {
+    return {
       id: userId,
       name,
       isHost,
       isMuted: false,
       isPresenter: false,
       isSpeaking: false,
-      joinedAt: serverTimestamp()
+      ...(this.sessionId ? { sessionId: this.sessionId } : {})
     };
+  }
 
-    const participantRef = doc(db, 'rooms', roomId, 'participants', userId);
-    await setDoc(participantRef, participantData as any);
+  /**
+   * Begin a new visit: signaling from earlier visits no longer counts
+   */
+  private startSession(): void {
+    this.sessionId = createSessionId();
+    this.peerSessionIds.clear();
   }
 
   /**
-   * Check if room has no participants and mark it as inactive
+   * Our session and the recipient's, as far as we know it
    */
-  private async checkAndDeactivateRoom(roomId: string): Promise<void> {
-    try {
-      const participantsRef = collection(db, 'rooms', roomId, 'participants');
-      const participantsSnapshot = await getDocs(participantsRef);
-      
-      if (participantsSnapshot.empty) {
-        // Mark room as inactive
-        const roomRef = doc(db, 'rooms', roomId);
-        await updateDoc(roomRef, { 
-          isActive: false,
-          endedAt: serverTimestamp()
-        });
-        console.log('🏠 Room marked as inactive:', roomId);
-      }
-    } catch (error) {
-      console.error('Error checking room deactivation:', error);
-    }
+  private sessionsFor(toId: string): SignalingSessions {
+    const toSessionId = this.participants.find(p => p.id === toId)?.sessionId ?? this.peerSessionIds.get(toId);
+    return { fromSessionId: this.sessionId, toSessionId: toSessionId ?? null };
   }
 
   /**
@@ -393,14 +1008,7 @@ class SignalingService {
    */
   async sendOffer(roomId: string, fromId: string, toId: string, offer: RTCSessionDescriptionInit): Promise<void> {
     try {
-      console.log('📤 Sending offer from', fromId, 'to', toId, 'in room', roomId);
-      const signalingRef = doc(db, 'rooms', roomId, 'signaling', `${fromId}_${toId}`);
-      await setDoc(signalingRef, {
-        offer,
-        iceCandidates: [],
-        timestamp: serverTimestamp()
-      });
-      console.log('✅ Offer sent successfully');
+      await this.transport.sendOffer(roomId, fromId, toId, offer, this.sessionsFor(toId));
     } catch (error) {
       console.error('❌ Failed to send offer:', error);
       throw error;
@@ -412,13 +1020,7 @@ class SignalingService {
    */
   async sendAnswer(roomId: string, fromId: string, toId: string, answer: RTCSessionDescriptionInit): Promise<void> {
     try {
-      console.log('📥 Sending answer from', fromId, 'to', toId, 'in room', roomId);
-      const signalingRef = doc(db, 'rooms', roomId, 'signaling', `${fromId}_${toId}`);
-      await setDoc(signalingRef, {
-        answer,
-        timestamp: serverTimestamp()
-      }, { merge: true });
-      console.log('✅ Answer sent successfully');
+      await this.transport.sendAnswer(roomId, fromId, toId, answer, this.sessionsFor(toId));
     } catch (error) {
       console.error('❌ Failed to send answer:', error);
       throw error;
@@ -430,28 +1032,7 @@ class SignalingService {
    */
   async sendIceCandidate(roomId: string, fromId: string, toId: string, candidate: RTCIceCandidateInit): Promise<void> {
     try {
-      console.log('🧊 Sending ICE candidate from', fromId, 'to', toId, 'in room', roomId);
-      
-      // Convert RTCIceCandidateInit to a plain object that Firebase can serialize
-      const serializableCandidate = {
-        candidate: candidate.candidate || '',
-        sdpMLineIndex: candidate.sdpMLineIndex || null,
-        sdpMid: candidate.sdpMid || null
-      };
-      
-      const signalingRef = doc(db, 'rooms', roomId, 'signaling', `${fromId}_${toId}`);
-      
-      // First, get the existing document to append to iceCandidates array
-      const docSnap = await getDoc(signalingRef);
-      const existingData = docSnap.exists() ? docSnap.data() : {};
-      const existingCandidates = existingData.iceCandidates || [];
-      
-      await setDoc(signalingRef, {
-        ...existingData,
-        iceCandidates: [...existingCandidates, serializableCandidate],
-        timestamp: serverTimestamp()
-      }, { merge: true });
-      console.log('✅ ICE candidate sent successfully');
+      await this.transport.sendIceCandidate(roomId, fromId, toId, candidate, this.sessionsFor(toId));
     } catch (error) {
       console.error('❌ Failed to send ICE candidate:', error);
       throw error;
@@ -459,37 +1040,18 @@ class SignalingService {
   }
 
   /**
-   * Listen for all signaling data for a specific user
+   * Listen for all signaling data for a specific user, skipping messages
+   * left over from earlier sessions
    */
   onAllSignaling(roomId: string, userId: string, callback: (fromId: string, data: SignalingData) => void): () => void {
     console.log('📡 Setting up signaling listener for user:', userId, 'in room:', roomId);
-    const signalingRef = collection(db, 'rooms', roomId, 'signaling');
-    
-    const unsubscribe = onSnapshot(signalingRef, 
-      (snapshot) => {
-        try {
-          snapshot.docChanges().forEach((change) => {
-            if (change.type === 'added' || change.type === 'modified') {
-              const docId = change.doc.id;
-              // Check if this document is targeting our user (format: fromId_toId)
-              if (docId.endsWith(`_${userId}`)) {
-                const fromId = docId.split('_')[0];
-                if (fromId !== userId) {
-                  const data = change.doc.data() as SignalingData;
-                  console.log('📥 Received signaling data from:', fromId, 'to:', userId);
-                  callback(fromId, data);
-                }
-              }
-            }
-          });
-        } catch (error) {
-          console.error('Error processing all signaling data:', error);
-        }
-      },
-      (error) => {
-        console.error('Error in all signaling subscription:', error);
-      }
-    );
+    const unsubscribe = this.transport.onAllSignaling(roomId, userId, (fromId, data) => {
+      const senderSessionId = this.participants.find(p => p.id === fromId)?.sessionId;
+      // Left over from an earlier session
+      if (!isCurrentSignal(data, this.sessionId, senderSessionId)) return;
+      if (data.fromSessionId) this.peerSessionIds.set(fromId, data.fromSessionId);
+      callback(fromId, data);
+    });
 
     this.unsubscribeCallbacks.push(unsubscribe);
     console.log('✅ Signaling listener set up successfully');
@@ -497,5 +1059,7 @@ class SignalingService {
   }
 }
 
+export { SignalingService };
+
 // Export singleton instance
-export const signaling = new SignalingService();
\ No newline at end of file
+export const signaling = new SignalingService();
@@ -0,0 +1,249 @@
+/**
+ * Call Quality Statistics
+ * Samples getStats() on every peer connection and turns the numbers into a
+ * MOS-style score (1..4.5) with the simplified ITU-T G.107 E-model.
+ * Polling only runs while someone is subscribed.
+ */
+
+import { peerManager } from './peer';
+import { STATS_CONFIG } from './config';
+
+export type SignalStrength = 'excellent' | 'good' | 'fair' | 'poor' | 'disconnected';
+
+// How the connection reaches the peer: directly, through NAT, or through a TURN relay
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay' | 'unknown';
+
+export interface CallQualitySample {
+  timestamp: number;
+  // Milliseconds; undefined until the first round trip is measured
+  roundTripTime?: number;
+  jitter?: number;
+  // Percent of incoming packets lost since the previous sample
+  packetLoss: number;
+  // Samples the decoder had to invent since the previous sample
+  concealedSamples: number;
+  // Kilobits per second since the previous sample
+  inboundBitrate: number;
+  outboundBitrate: number;
+  candidateType: CandidateType;
+  mos: number;
+  strength: SignalStrength;
+}
+
+export type CallStatsListener = () => void;
+
+// Cumulative counters from the previous sample, for per-interval deltas
+interface Counters {
+  timestamp: number;
+  packetsLost: number;
+  packetsReceived: number;
+  concealedSamples: number;
+  bytesReceived: number;
+  bytesSent: number;
+}
+
+// Not in lib.dom yet: the far end's receiver report, which carries the round trip time
+interface RTCRemoteInboundRtpStreamStats extends RTCReceivedRtpStreamStats {
+  roundTripTime?: number;
+}
+
+// Firefox flags the selected pair instead of reporting a transport
+interface CandidatePairStats extends RTCIceCandidatePairStats {
+  selected?: boolean;
+}
+
+class CallStatsCollector {
+  private history: Map<string, CallQualitySample[]> = new Map();
+  private counters: Map<string, Counters> = new Map();
+  private listeners: Set<CallStatsListener> = new Set();
+  private interval?: ReturnType<typeof setInterval>;
+  private polling = false;
+
+  /**
+   * Most recent sample for a participant, if connected to them
+   */
+  getLatest(participantId: string): CallQualitySample | undefined {
+    const samples = this.history.get(participantId);
+    return samples?.[samples.length - 1];
+  }
+
+  /**
+   * Recent samples for a participant, oldest first
+   */
+  getHistory(participantId: string): CallQualitySample[] {
+    return this.history.get(participantId) ?? [];
+  }
+
+  /**
+   * Listen for new samples; the first listener starts polling, the last one stops it
+   */
+  subscribe(listener: CallStatsListener): () => void {
+    this.listeners.add(listener);
+    if (!this.interval) {
+      this.interval = setInterval(() => this.poll(), STATS_CONFIG.pollInterval);
+      this.poll();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  private stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+    this.history.clear();
+    this.counters.clear();
+    this.polling = false;
+  }
+
+  private async poll(): Promise<void> {
+    // getStats can outlast the interval on a busy main thread
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const peers = peerManager.getPeers();
+
+      // Forget participants whose connection went away
+      this.history.forEach((_, participantId) => {
+        if (!peers.has(participantId)) {
+          this.history.delete(participantId);
+          this.counters.delete(participantId);
+        }
+      });
+
+      await Promise.all(Array.from(peers.values()).map(async ({ peer, participantId }) => {
+        const sample = peer.connectionState === 'connected'
+          ? await this.sample(participantId, peer)
+          : this.disconnectedSample(participantId);
+        this.record(participantId, sample);
+      }));
+
+      this.listeners.forEach(listener => listener());
+    } catch (error) {
+      // Try again on the next poll
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async sample(participantId: string, peer: RTCPeerConnection): Promise<CallQualitySample> {
+    const stats = await peer.getStats();
+    const now = Date.now();
+
+    let inbound: RTCInboundRtpStreamStats | undefined;
+    let outbound: RTCOutboundRtpStreamStats | undefined;
+    let remoteInbound: RTCRemoteInboundRtpStreamStats | undefined;
+    let selectedPairId: string | undefined;
+    const pairs: CandidatePairStats[] = [];
+
+    stats.forEach(report => {
+      if (report.type === 'inbound-rtp' && report.kind === 'audio') inbound = report;
+      if (report.type === 'outbound-rtp' && report.kind === 'audio') outbound = report;
+      if (report.type === 'remote-inbound-rtp' && report.kind === 'audio') remoteInbound = report;
+      if (report.type === 'transport' && report.selectedCandidatePairId) selectedPairId = report.selectedCandidatePairId;
+      if (report.type === 'candidate-pair') pairs.push(report);
+    });
+
+    // Firefox has no transport report, it flags the pair instead
+    const pair: CandidatePairStats | undefined = selectedPairId
+      ? stats.get(selectedPairId)
+      : pairs.find(candidatePair => candidatePair.selected || (candidatePair.nominated && candidatePair.state === 'succeeded'));
+
+    const counters: Counters = {
+      timestamp: now,
+      packetsLost: inbound?.packetsLost ?? 0,
+      packetsReceived: inbound?.packetsReceived ?? 0,
+      concealedSamples: inbound?.concealedSamples ?? 0,
+      bytesReceived: inbound?.bytesReceived ?? 0,
+      bytesSent: outbound?.bytesSent ?? 0
+    };
+    const previous = this.counters.get(participantId);
+    this.counters.set(participantId, counters);
+
+    const delta = (key: keyof Counters) => previous ? Math.max(0, counters[key] - previous[key]) : 0;
+    const seconds = previous ? (counters.timestamp - previous.timestamp) / 1000 : 0;
+    const lost = delta('packetsLost');
+    const expected = lost + delta('packetsReceived');
+
+    const rttSeconds = pair?.currentRoundTripTime ?? remoteInbound?.roundTripTime;
+    const roundTripTime = typeof rttSeconds === 'number' ? rttSeconds * 1000 : undefined;
+    const jitter = typeof inbound?.jitter === 'number' ? inbound.jitter * 1000 : undefined;
+    const packetLoss = expected > 0 ? (lost / expected) * 100 : 0;
+    const mos = this.estimateMos(roundTripTime ?? 0, jitter ?? 0, packetLoss);
+
+    return {
+      timestamp: now,
+      roundTripTime,
+      jitter,
+      packetLoss,
+      concealedSamples: delta('concealedSamples'),
+      inboundBitrate: seconds > 0 ? (delta('bytesReceived') * 8) / seconds / 1000 : 0,
+      outboundBitrate: seconds > 0 ? (delta('bytesSent') * 8) / seconds / 1000 : 0,
+      candidateType: this.candidateType(stats, pair),
+      mos,
+      strength: this.toStrength(mos)
+    };
+  }
+
+  private disconnectedSample(participantId: string): CallQualitySample {
+    // Counters restart on a new connection
+    this.counters.delete(participantId);
+    return {
+      timestamp: Date.now(),
+      packetLoss: 0,
+      concealedSamples: 0,
+      inboundBitrate: 0,
+      outboundBitrate: 0,
+      candidateType: this.getLatest(participantId)?.candidateType ?? 'unknown',
+      mos: 1,
+      strength: 'disconnected'
+    };
+  }
+
+  private record(participantId: string, sample: CallQualitySample): void {
+    const samples = [...this.getHistory(participantId), sample];
+    this.history.set(participantId, samples.slice(-STATS_CONFIG.historyLength));
+  }
+
+  /**
+   * A relay on either end means the audio goes through TURN
+   */
+  private candidateType(stats: RTCStatsReport, pair: CandidatePairStats | undefined): CandidateType {
+    if (!pair) return 'unknown';
+    const local = stats.get(pair.localCandidateId)?.candidateType;
+    const remote = stats.get(pair.remoteCandidateId)?.candidateType;
+    if (local === 'relay' || remote === 'relay') return 'relay';
+    return local ?? 'unknown';
+  }
+
+  /**
+   * Simplified E-model: latency and jitter lower the R factor, loss lowers it
+   * further, and R maps onto the 1..4.5 MOS scale
+   */
+  private estimateMos(roundTripTime: number, jitter: number, packetLoss: number): number {
+    const effectiveLatency = roundTripTime / 2 + jitter * 2 + 10;
+    let rFactor = effectiveLatency < 160
+      ? 93.2 - effectiveLatency / 40
+      : 93.2 - (effectiveLatency - 120) / 10;
+    rFactor -= packetLoss * 2.5;
+    rFactor = Math.min(100, Math.max(0, rFactor));
+
+    const mos = 1 + 0.035 * rFactor + 0.000007 * rFactor * (rFactor - 60) * (100 - rFactor);
+    return Math.min(4.5, Math.max(1, mos));
+  }
+
+  private toStrength(mos: number): SignalStrength {
+    if (mos >= STATS_CONFIG.excellentMos) return 'excellent';
+    if (mos >= STATS_CONFIG.goodMos) return 'good';
+    if (mos >= STATS_CONFIG.fairMos) return 'fair';
+    return 'poor';
+  }
+}
+
+// Export singleton instance
+export const callStats = new CallStatsCollector();
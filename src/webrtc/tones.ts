@@ -0,0 +1,48 @@
+/**
+ * Cue Tones
+ * Short generated sounds for audio cues, played on the chosen speaker
+ */
+
+import { deviceManager } from './devices';
+import { FLOOR_CONFIG } from './config';
+
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/**
+ * "Channel busy": a few quick beeps when the push-to-talk floor is taken
+ */
+export async function playBusyTone(): Promise<void> {
+  if (typeof AudioContext === 'undefined') return;
+
+  const context: SinkableAudioContext = new AudioContext();
+  try {
+    const outputDeviceId = deviceManager.getOutputDeviceId();
+    if (outputDeviceId) {
+      await context.setSinkId?.(outputDeviceId).catch(() => {
+        // Beep on the default speaker instead
+      });
+    }
+
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = FLOOR_CONFIG.busyToneFrequency;
+    gain.gain.value = 0;
+
+    const beep = FLOOR_CONFIG.busyToneBeepLength;
+    const start = context.currentTime;
+    for (let i = 0; i < FLOOR_CONFIG.busyToneBeeps; i++) {
+      const at = start + i * beep * 2;
+      gain.gain.setValueAtTime(0.2, at);
+      gain.gain.setValueAtTime(0, at + beep);
+    }
+
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + FLOOR_CONFIG.busyToneBeeps * beep * 2);
+    await new Promise(resolve => { oscillator.onended = resolve; });
+  } finally {
+    context.close().catch(() => {
+      // Already closed
+    });
+  }
+}
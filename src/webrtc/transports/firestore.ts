@@ -0,0 +1,558 @@
+/**
+ * Firestore Signaling Transport
+ * Stores rooms, participants and signaling documents in Firebase
+ */
+
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  setDoc,
+  onSnapshot,
+  updateDoc,
+  deleteDoc,
+  runTransaction,
+  serverTimestamp,
+  arrayUnion,
+  arrayRemove,
+  query,
+  orderBy,
+  where,
+  type WithFieldValue
+} from 'firebase/firestore';
+import { db } from '../../firebase/config';
+import { isParticipantStale, toMillis } from '../presence';
+import { canClaimFloor } from '../floor';
+import type {
+  RoomData,
+  Participant,
+  SignalingData,
+  SignalingSessions,
+  ParticipantUpdateCallback,
+  RoomUpdateCallback,
+  ModerationCommand,
+  ModerationCommandCallback,
+  AdmissionRequest,
+  JoinRoomResult,
+  AdmissionRequestsCallback,
+  AdmissionStatusCallback,
+  RoomAuditEntry,
+  AuditLogCallback
+} from '../signaling';
+import { RoomAccessError, type SignalingTransport, type SignalingListener } from './types';
+
+// Stored shape of /signaling documents: one offer or answer each
+interface DescriptionDocument extends SignalingSessions {
+  fromId: string;
+  toId: string;
+  offer?: RTCSessionDescriptionInit;
+  answer?: RTCSessionDescriptionInit;
+  // Sender's clock, orders messages delivered in one snapshot
+  sentAt: number;
+  timestamp: SignalingData['timestamp'];
+}
+
+// Stored shape of /iceCandidates documents: one candidate each
+interface CandidateDocument extends SignalingSessions {
+  fromId: string;
+  toId: string;
+  candidate: string;
+  sdpMid: string | null;
+  sdpMLineIndex: number | null;
+  timestamp: SignalingData['timestamp'];
+}
+
+export class FirestoreTransport implements SignalingTransport {
+  async createRoom(room: RoomData, host: Participant, pinHash?: string): Promise<void> {
+    console.log('📝 Saving room to Firebase...');
+    console.log('📝 Room data to save:', room);
+    const roomRef = doc(db, 'rooms', room.id);
+    const roomDocument: WithFieldValue<RoomData> = { ...room, createdAt: serverTimestamp() };
+    await setDoc(roomRef, roomDocument);
+    console.log('✅ Room document saved to Firebase');
+
+    if (pinHash) {
+      // Unreadable by clients; firestore.rules compares member pinHash against it
+      await setDoc(doc(db, 'rooms', room.id, 'private', 'pin'), { hash: pinHash });
+    }
+    await this.addMember(room.id, host.id);
+
+    console.log('👑 Adding host as first participant...');
+    await this.addParticipant(room.id, host);
+    console.log('✅ Host added as participant');
+  }
+
+  async joinRoom(roomId: string, participant: Participant, pinHash?: string): Promise<JoinRoomResult> {
+    console.log('🔍 Fetching room data from Firebase...');
+    const roomRef = doc(db, 'rooms', roomId);
+    const roomSnap = await getDoc(roomRef);
+
+    if (!roomSnap.exists()) {
+      console.error('❌ Room not found:', roomId);
+      throw new Error('Room not found');
+    }
+
+    const roomData = { ...roomSnap.data(), id: roomId } as RoomData;
+
+    // Participants are only readable by members, so become one first
+    const memberSnap = await getDoc(doc(db, 'rooms', roomId, 'members', participant.id));
+    if (!memberSnap.exists()) {
+      const removedSnap = await getDoc(doc(db, 'rooms', roomId, 'removed', participant.id));
+      if (removedSnap.exists()) {
+        throw new RoomAccessError('removed');
+      }
+      if (roomData.locked) {
+        throw new RoomAccessError('locked');
+      }
+      if (roomData.settings?.pinProtected && !pinHash) {
+        throw new RoomAccessError('pin-required');
+      }
+      try {
+        if (roomData.settings?.waitingRoom) {
+          // Members are created by the host on admission; until then we only get a request
+          return await this.requestAdmission(roomData, participant, pinHash);
+        }
+        await this.addMember(roomId, participant.id, pinHash);
+      } catch (error) {
+        // The rules reject member documents and requests whose pinHash does not match
+        if (roomData.settings?.pinProtected && (error as { code?: string }).code === 'permission-denied') {
+          throw new RoomAccessError('incorrect-pin');
+        }
+        throw error;
+      }
+    }
+
+    // When the last participant crashed nobody was left to prune them, so the
+    // next joiner clears the ghosts; a room with nobody live is ended first
+    // and then started again by this join
+    const ended = await this.pruneStaleParticipants(roomId);
+    if (ended || roomData.isActive === false) {
+      await updateDoc(roomRef, { isActive: true });
+      roomData.isActive = true;
+    }
+
+    // Check if user is already a participant
+    const participantRef = doc(db, 'rooms', roomId, 'participants', participant.id);
+    const participantSnap = await getDoc(participantRef);
+
+    if (!participantSnap.exists()) {
+      await this.addParticipant(roomId, participant);
+    } else if (participant.sessionId) {
+      // Back within the stale timeout (e.g. a reload): signaling now goes to this visit
+      await updateDoc(participantRef, { sessionId: participant.sessionId, lastSeen: serverTimestamp() });
+    }
+
+    return { room: roomData, admission: 'admitted' };
+  }
+
+  async updateAdmissionRequest(roomId: string, userId: string, name: string): Promise<void> {
+    await updateDoc(doc(db, 'rooms', roomId, 'waiting', userId), { name });
+  }
+
+  async deleteAdmissionRequest(roomId: string, userId: string): Promise<void> {
+    await deleteDoc(doc(db, 'rooms', roomId, 'waiting', userId));
+  }
+
+  async resolveAdmissionRequest(roomId: string, userId: string, admit: boolean): Promise<void> {
+    if (admit) {
+      await this.addMember(roomId, userId);
+    }
+    await updateDoc(doc(db, 'rooms', roomId, 'waiting', userId), { status: admit ? 'admitted' : 'denied' });
+  }
+
+  onAdmissionRequests(roomId: string, callback: AdmissionRequestsCallback): () => void {
+    const pendingQuery = query(collection(db, 'rooms', roomId, 'waiting'), where('status', '==', 'pending'));
+
+    return onSnapshot(pendingQuery,
+      (snapshot) => {
+        const requests = snapshot.docs
+          .map(doc => {
+            const { name, status, requestedAt } = doc.data({ serverTimestamps: 'estimate' });
+            return { id: doc.id, name, status, requestedAt } as AdmissionRequest;
+          })
+          .sort((a, b) => (toMillis(a.requestedAt) || 0) - (toMillis(b.requestedAt) || 0));
+        callback(requests);
+      },
+      (error) => {
+        console.error('Error in waiting room subscription:', error);
+      }
+    );
+  }
+
+  onAdmissionStatus(roomId: string, userId: string, callback: AdmissionStatusCallback): () => void {
+    return onSnapshot(doc(db, 'rooms', roomId, 'waiting', userId),
+      (snapshot) => {
+        callback(snapshot.exists() ? snapshot.data().status : null);
+      },
+      (error) => {
+        console.error('Error in admission status subscription:', error);
+      }
+    );
+  }
+
+  async leaveRoom(roomId: string, participantId: string): Promise<void> {
+    const participantRef = doc(db, 'rooms', roomId, 'participants', participantId);
+    await deleteDoc(participantRef);
+
+    // Only the participant and the host may; other pruning clients skip this and
+    // rely on raised hands and the floor being filtered to present participants
+    await this.lowerHand(roomId, participantId).catch(() => {});
+    await this.releaseFloor(roomId, participantId).catch(() => {});
+    await this.deleteSentSignaling(roomId, participantId).catch(() => {});
+
+    // Check if room should be deactivated
+    await this.checkAndDeactivateRoom(roomId);
+  }
+
+  /**
+   * Offers, answers and candidates a participant sent are useless once they
+   * are gone; without this the collections only ever grow
+   */
+  private async deleteSentSignaling(roomId: string, fromId: string): Promise<void> {
+    await Promise.all(['signaling', 'iceCandidates'].map(async (collectionName) => {
+      const sent = await getDocs(query(collection(db, 'rooms', roomId, collectionName), where('fromId', '==', fromId)));
+      await Promise.all(sent.docs.map(message => deleteDoc(message.ref)));
+    }));
+  }
+
+  async removeParticipant(roomId: string, participantId: string): Promise<void> {
+    // The marker outlives the membership, so the rules refuse a new one
+    await setDoc(doc(db, 'rooms', roomId, 'removed', participantId), { removedAt: serverTimestamp() });
+    await deleteDoc(doc(db, 'rooms', roomId, 'members', participantId));
+    await this.leaveRoom(roomId, participantId);
+  }
+
+  async updateRoom(roomId: string, updates: Partial<RoomData>): Promise<void> {
+    const roomRef = doc(db, 'rooms', roomId);
+    await updateDoc(roomRef, updates);
+  }
+
+  async raiseHand(roomId: string, participantId: string): Promise<void> {
+    await updateDoc(doc(db, 'rooms', roomId), { raisedHands: arrayUnion(participantId) });
+  }
+
+  async lowerHand(roomId: string, participantId: string): Promise<void> {
+    await updateDoc(doc(db, 'rooms', roomId), { raisedHands: arrayRemove(participantId) });
+  }
+
+  async claimFloor(roomId: string, participantId: string, expiresAt: number): Promise<boolean> {
+    const roomRef = doc(db, 'rooms', roomId);
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(roomRef);
+      const floor = snapshot.data()?.floor;
+      if (!canClaimFloor(floor, participantId)) return false;
+
+      transaction.update(roomRef, { floor: { holderId: participantId, expiresAt } });
+      return true;
+    });
+  }
+
+  async releaseFloor(roomId: string, participantId: string): Promise<void> {
+    const roomRef = doc(db, 'rooms', roomId);
+    await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(roomRef);
+      if (snapshot.data()?.floor?.holderId !== participantId) return;
+      transaction.update(roomRef, { floor: null });
+    });
+  }
+
+  async heartbeat(roomId: string, participantId: string): Promise<void> {
+    const participantRef = doc(db, 'rooms', roomId, 'participants', participantId);
+    await updateDoc(participantRef, { lastSeen: serverTimestamp() });
+  }
+
+  async updateParticipant(roomId: string, participantId: string, updates: Partial<Participant>): Promise<void> {
+    const participantRef = doc(db, 'rooms', roomId, 'participants', participantId);
+    await updateDoc(participantRef, updates);
+  }
+
+  onParticipants(roomId: string, callback: ParticipantUpdateCallback): () => void {
+    const participantsRef = collection(db, 'rooms', roomId, 'participants');
+    const q = query(participantsRef, orderBy('joinedAt', 'asc'));
+
+    return onSnapshot(q,
+      (snapshot) => {
+        try {
+          // Estimate pending server timestamps so our own fresh heartbeat never looks stale
+          const participants = snapshot.docs.map(doc => ({
+            id: doc.id,
+            ...doc.data({ serverTimestamps: 'estimate' })
+          })) as Participant[];
+
+          callback(participants);
+        } catch (error) {
+          console.error('Error processing participant updates:', error);
+        }
+      },
+      (error) => {
+        console.error('Error in participant subscription:', error);
+        // Don't call callback on error to prevent infinite loops
+      }
+    );
+  }
+
+  onRoom(roomId: string, callback: RoomUpdateCallback): () => void {
+    const roomRef = doc(db, 'rooms', roomId);
+
+    return onSnapshot(roomRef,
+      (doc) => {
+        try {
+          console.log('📡 Room update received for room:', roomId, 'exists:', doc.exists());
+          if (doc.exists()) {
+            callback({ ...doc.data(), id: doc.id } as RoomData);
+          } else {
+            console.log('❌ Room document does not exist, calling callback with null');
+            callback(null);
+          }
+        } catch (error) {
+          console.error('Error processing room updates:', error);
+        }
+      },
+      (error) => {
+        console.error('Error in room subscription:', error);
+      }
+    );
+  }
+
+  async sendModerationCommand(roomId: string, command: Omit<ModerationCommand, 'id' | 'timestamp'>): Promise<void> {
+    const commandsRef = collection(db, 'rooms', roomId, 'moderation');
+    await addDoc(commandsRef, { ...command, timestamp: serverTimestamp() });
+  }
+
+  onModerationCommands(roomId: string, callback: ModerationCommandCallback): () => void {
+    const commandsRef = collection(db, 'rooms', roomId, 'moderation');
+    let initialSnapshot = true;
+
+    return onSnapshot(commandsRef,
+      (snapshot) => {
+        // The first snapshot holds commands issued before we subscribed; never replay them
+        if (initialSnapshot) {
+          initialSnapshot = false;
+          return;
+        }
+
+        snapshot.docChanges().forEach((change) => {
+          if (change.type === 'added') {
+            callback({ ...change.doc.data(), id: change.doc.id } as ModerationCommand);
+          }
+        });
+      },
+      (error) => {
+        console.error('Error in moderation subscription:', error);
+      }
+    );
+  }
+
+  async addAuditEntry(roomId: string, entry: Omit<RoomAuditEntry, 'id' | 'timestamp'>): Promise<void> {
+    const auditRef = collection(db, 'rooms', roomId, 'audit');
+    await addDoc(auditRef, { ...entry, timestamp: serverTimestamp() });
+  }
+
+  onAuditLog(roomId: string, callback: AuditLogCallback): () => void {
+    const q = query(collection(db, 'rooms', roomId, 'audit'), orderBy('timestamp', 'asc'));
+
+    return onSnapshot(q,
+      (snapshot) => {
+        callback(snapshot.docs.map(doc => ({
+          ...doc.data({ serverTimestamps: 'estimate' }),
+          id: doc.id
+        })) as RoomAuditEntry[]);
+      },
+      (error) => {
+        console.error('Error in audit log subscription:', error);
+      }
+    );
+  }
+
+  async sendOffer(roomId: string, fromId: string, toId: string, offer: RTCSessionDescriptionInit, sessions: SignalingSessions): Promise<void> {
+    await this.sendDescription(roomId, fromId, toId, { offer }, sessions);
+  }
+
+  async sendAnswer(roomId: string, fromId: string, toId: string, answer: RTCSessionDescriptionInit, sessions: SignalingSessions): Promise<void> {
+    await this.sendDescription(roomId, fromId, toId, { answer }, sessions);
+  }
+
+  /**
+   * Each offer and answer is its own document, so an answer followed quickly
+   * by a renegotiation offer can't overwrite each other before the listener
+   * sees them. sentAt orders messages that arrive in the same snapshot.
+   */
+  private async sendDescription(
+    roomId: string,
+    fromId: string,
+    toId: string,
+    description: Pick<SignalingData, 'offer' | 'answer'>,
+    sessions: SignalingSessions
+  ): Promise<void> {
+    const message: WithFieldValue<DescriptionDocument> = {
+      fromId,
+      toId,
+      ...description,
+      ...sessions,
+      sentAt: Date.now(),
+      timestamp: serverTimestamp()
+    };
+    await addDoc(collection(db, 'rooms', roomId, 'signaling'), message);
+  }
+
+  async sendIceCandidate(roomId: string, fromId: string, toId: string, candidate: RTCIceCandidateInit, sessions: SignalingSessions): Promise<void> {
+    // Each candidate is its own document so concurrent trickles never overwrite each other
+    const candidatesRef = collection(db, 'rooms', roomId, 'iceCandidates');
+    const message: WithFieldValue<CandidateDocument> = {
+      fromId,
+      toId,
+      ...sessions,
+      candidate: candidate.candidate || '',
+      sdpMLineIndex: candidate.sdpMLineIndex ?? null,
+      sdpMid: candidate.sdpMid ?? null,
+      timestamp: serverTimestamp()
+    };
+    await addDoc(candidatesRef, message);
+  }
+
+  onAllSignaling(roomId: string, userId: string, callback: SignalingListener): () => void {
+    // Offer and answer documents are never modified, so each one arrives once
+    const descriptionsQuery = query(collection(db, 'rooms', roomId, 'signaling'), where('toId', '==', userId));
+    const unsubscribeDescriptions = onSnapshot(descriptionsQuery,
+      (snapshot) => {
+        try {
+          snapshot.docChanges()
+            .filter(change => change.type === 'added')
+            .map(change => change.doc.data() as DescriptionDocument)
+            .sort((a, b) => (a.sentAt ?? 0) - (b.sentAt ?? 0))
+            .forEach(({ fromId, offer, answer, fromSessionId, toSessionId, timestamp }) => {
+              if (fromId === userId) return;
+              callback(fromId, {
+                ...(offer ? { offer } : {}),
+                ...(answer ? { answer } : {}),
+                fromSessionId,
+                toSessionId,
+                timestamp
+              });
+            });
+        } catch (error) {
+          console.error('Error processing all signaling data:', error);
+        }
+      },
+      (error) => {
+        console.error('Error in all signaling subscription:', error);
+      }
+    );
+
+    // Only newly added candidate documents are delivered, so each one arrives once
+    const candidatesQuery = query(collection(db, 'rooms', roomId, 'iceCandidates'), where('toId', '==', userId));
+    const unsubscribeCandidates = onSnapshot(candidatesQuery,
+      (snapshot) => {
+        snapshot.docChanges().forEach((change) => {
+          if (change.type !== 'added') return;
+
+          const { fromId, candidate, sdpMid, sdpMLineIndex, fromSessionId, toSessionId, timestamp } = change.doc.data() as CandidateDocument;
+          if (fromId !== userId) {
+            callback(fromId, {
+              iceCandidates: [{ candidate, sdpMid, sdpMLineIndex }],
+              fromSessionId,
+              toSessionId,
+              timestamp
+            });
+          }
+        });
+      },
+      (error) => {
+        console.error('Error in ICE candidate subscription:', error);
+      }
+    );
+
+    return () => {
+      unsubscribeDescriptions();
+      unsubscribeCandidates();
+    };
+  }
+
+  /**
+   * Ask the host to admit a user, reusing an earlier request if there is one
+   */
+  private async requestAdmission(room: RoomData, participant: Participant, pinHash?: string): Promise<JoinRoomResult> {
+    const requestRef = doc(db, 'rooms', room.id, 'waiting', participant.id);
+    const requestSnap = await getDoc(requestRef);
+
+    if (requestSnap.exists()) {
+      if (requestSnap.data().status === 'denied') {
+        throw new RoomAccessError('denied');
+      }
+    } else {
+      await setDoc(requestRef, {
+        name: participant.name,
+        status: 'pending',
+        ...(pinHash ? { pinHash } : {}),
+        requestedAt: serverTimestamp()
+      });
+    }
+
+    return { room, admission: 'pending' };
+  }
+
+  /**
+   * Record that a user was admitted to a room
+   */
+  private async addMember(roomId: string, userId: string, pinHash?: string): Promise<void> {
+    const memberRef = doc(db, 'rooms', roomId, 'members', userId);
+    await setDoc(memberRef, { ...(pinHash ? { pinHash } : {}), admittedAt: serverTimestamp() });
+  }
+
+  /**
+   * Add a participant document to a room
+   */
+  private async addParticipant(roomId: string, participant: Participant): Promise<void> {
+    const participantRef = doc(db, 'rooms', roomId, 'participants', participant.id);
+    const participantDocument: WithFieldValue<Participant> = { ...participant, joinedAt: serverTimestamp(), lastSeen: serverTimestamp() };
+    await setDoc(participantRef, participantDocument);
+  }
+
+  /**
+   * Delete participants whose heartbeat went stale (the rules allow this to
+   * any member). Resolves whether the room was ended for having nobody live.
+   */
+  private async pruneStaleParticipants(roomId: string): Promise<boolean> {
+    const participantsSnapshot = await getDocs(collection(db, 'rooms', roomId, 'participants'));
+    const stale = participantsSnapshot.docs.filter(doc =>
+      isParticipantStale(doc.data({ serverTimestamps: 'estimate' }) as Participant)
+    );
+    if (stale.length === 0) return false;
+
+    console.log('🧹 Removing', stale.length, 'stale participants from room:', roomId);
+    await Promise.all(stale.map(doc => deleteDoc(doc.ref).catch(error => {
+      console.error('Failed to remove stale participant:', doc.id, error);
+    })));
+
+    if (stale.length < participantsSnapshot.size) return false;
+    await this.checkAndDeactivateRoom(roomId);
+    return true;
+  }
+
+  /**
+   * Check if room has no live participants and mark it as inactive
+   */
+  private async checkAndDeactivateRoom(roomId: string): Promise<void> {
+    try {
+      const participantsRef = collection(db, 'rooms', roomId, 'participants');
+      const participantsSnapshot = await getDocs(participantsRef);
+      const hasLiveParticipant = participantsSnapshot.docs.some(doc =>
+        !isParticipantStale(doc.data({ serverTimestamps: 'estimate' }) as Participant)
+      );
+
+      if (!hasLiveParticipant) {
+        // Mark room as inactive
+        const roomRef = doc(db, 'rooms', roomId);
+        await updateDoc(roomRef, {
+          isActive: false,
+          endedAt: serverTimestamp()
+        });
+        console.log('🏠 Room marked as inactive:', roomId);
+      }
+    } catch (error) {
+      console.error('Error checking room deactivation:', error);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Signaling Transport Selection
+ * Picks the backend that SignalingService talks to based on SIGNALING_CONFIG
+ */
+
+import { SIGNALING_CONFIG } from '../config';
+import { FirestoreTransport } from './firestore';
+import { SocketTransport } from './socket';
+import { MemoryTransport } from './memory';
+import type { SignalingTransport, SignalingTransportType } from './types';
+
+export function createSignalingTransport(type: SignalingTransportType = SIGNALING_CONFIG.transport): SignalingTransport {
+  switch (type) {
+    case 'socket':
+      return new SocketTransport();
+    case 'memory':
+      return new MemoryTransport();
+    case 'firestore':
+    default:
+      return new FirestoreTransport();
+  }
+}
+
+export { FirestoreTransport, SocketTransport, MemoryTransport };
+export { RoomAccessError, type RoomAccessReason } from './types';
+export type { SignalingTransport, SignalingTransportType, SignalingListener } from './types';
@@ -0,0 +1,471 @@
+/**
+ * In-Memory Signaling Transport
+ * Keeps rooms and signaling in process memory so several clients in the same
+ * page (or test run) can talk to each other without a backend
+ */
+
+import type {
+  RoomData,
+  Participant,
+  SignalingData,
+  SignalingSessions,
+  ParticipantUpdateCallback,
+  RoomUpdateCallback,
+  ModerationCommand,
+  ModerationCommandCallback,
+  AdmissionRequest,
+  JoinRoomResult,
+  AdmissionRequestsCallback,
+  AdmissionStatusCallback,
+  RoomAuditEntry,
+  AuditLogCallback
+} from '../signaling';
+import { RoomAccessError, type SignalingTransport, type SignalingListener } from './types';
+import { isParticipantStale } from '../presence';
+import { canClaimFloor } from '../floor';
+
+interface MemoryRoom {
+  room: RoomData | null;
+  pinHash?: string;
+  // Users that passed the PIN check (or joined an open room)
+  members: Set<string>;
+  // Users the host removed; they may not join or ask to again
+  removed: Set<string>;
+  admissionRequests: Map<string, AdmissionRequest>;
+  participants: Map<string, Participant>;
+  signaling: { fromId: string; toId: string; data: SignalingData }[];
+  iceCandidates: { fromId: string; toId: string; candidate: RTCIceCandidateInit; sessions: SignalingSessions }[];
+  participantListeners: Set<ParticipantUpdateCallback>;
+  roomListeners: Set<RoomUpdateCallback>;
+  moderationListeners: Set<ModerationCommandCallback>;
+  auditLog: RoomAuditEntry[];
+  auditListeners: Set<AuditLogCallback>;
+  admissionListeners: Set<AdmissionRequestsCallback>;
+  admissionStatusListeners: Set<{ userId: string; callback: AdmissionStatusCallback }>;
+  signalingListeners: Set<{ userId: string; callback: SignalingListener }>;
+}
+
+// Shared across every MemoryTransport instance in this process
+const rooms: Map<string, MemoryRoom> = new Map();
+
+export class MemoryTransport implements SignalingTransport {
+  /**
+   * Drop all rooms and listeners (useful between tests)
+   */
+  static reset(): void {
+    rooms.clear();
+  }
+
+  async createRoom(room: RoomData, host: Participant, pinHash?: string): Promise<void> {
+    const entry = this.getOrCreateEntry(room.id);
+    entry.room = { ...room, createdAt: Date.now() };
+    entry.pinHash = pinHash;
+    entry.members.add(host.id);
+    entry.participants.set(host.id, { ...host, joinedAt: Date.now(), lastSeen: Date.now() });
+    this.emitRoom(entry);
+    this.emitParticipants(entry);
+  }
+
+  async joinRoom(roomId: string, participant: Participant, pinHash?: string): Promise<JoinRoomResult> {
+    const entry = rooms.get(roomId);
+    if (!entry?.room) {
+      throw new Error('Room not found');
+    }
+
+    if (!entry.members.has(participant.id)) {
+      if (entry.removed.has(participant.id)) throw new RoomAccessError('removed');
+      if (entry.room.locked) throw new RoomAccessError('locked');
+      if (entry.pinHash) {
+        if (!pinHash) throw new RoomAccessError('pin-required');
+        if (pinHash !== entry.pinHash) throw new RoomAccessError('incorrect-pin');
+      }
+
+      if (entry.room.settings?.waitingRoom) {
+        const request = entry.admissionRequests.get(participant.id);
+        if (request?.status === 'denied') throw new RoomAccessError('denied');
+        if (!request) {
+          entry.admissionRequests.set(participant.id, {
+            id: participant.id,
+            name: participant.name,
+            status: 'pending',
+            requestedAt: Date.now()
+          });
+          this.emitAdmissionRequests(entry);
+        }
+        return { room: { ...entry.room }, admission: 'pending' };
+      }
+      entry.members.add(participant.id);
+    }
+
+    // When the last participant crashed nobody was left to prune them, so the
+    // next joiner clears the ghosts; a room with nobody live is ended first
+    // and then started again by this join
+    const stale = Array.from(entry.participants.values()).filter(p => isParticipantStale(p));
+    if (stale.length > 0) {
+      stale.forEach(p => entry.participants.delete(p.id));
+      if (entry.participants.size === 0) {
+        entry.room = { ...entry.room, isActive: false };
+      }
+      this.emitParticipants(entry);
+    }
+    if (!entry.room.isActive) {
+      entry.room = { ...entry.room, isActive: true };
+      this.emitRoom(entry);
+    }
+
+    const existing = entry.participants.get(participant.id);
+    if (!existing) {
+      entry.participants.set(participant.id, { ...participant, joinedAt: Date.now(), lastSeen: Date.now() });
+      this.emitParticipants(entry);
+    } else if (participant.sessionId) {
+      // Back within the stale timeout (e.g. a reload): signaling now goes to this visit
+      entry.participants.set(participant.id, { ...existing, sessionId: participant.sessionId, lastSeen: Date.now() });
+      this.emitParticipants(entry);
+    }
+
+    return { room: { ...entry.room }, admission: 'admitted' };
+  }
+
+  async updateAdmissionRequest(roomId: string, userId: string, name: string): Promise<void> {
+    const entry = rooms.get(roomId);
+    const request = entry?.admissionRequests.get(userId);
+    if (!entry || !request) {
+      throw new Error('Admission request not found');
+    }
+
+    entry.admissionRequests.set(userId, { ...request, name });
+    this.emitAdmissionRequests(entry);
+  }
+
+  async deleteAdmissionRequest(roomId: string, userId: string): Promise<void> {
+    const entry = rooms.get(roomId);
+    if (entry?.admissionRequests.get(userId)?.status !== 'pending') return;
+
+    entry.admissionRequests.delete(userId);
+
+    this.emitAdmissionRequests(entry);
+    this.emitAdmissionStatus(entry, userId);
+  }
+
+  async resolveAdmissionRequest(roomId: string, userId: string, admit: boolean): Promise<void> {
+    const entry = rooms.get(roomId);
+    const request = entry?.admissionRequests.get(userId);
+    if (!entry || !request) {
+      throw new Error('Admission request not found');
+    }
+
+    if (admit) {
+      entry.members.add(userId);
+    }
+    entry.admissionRequests.set(userId, { ...request, status: admit ? 'admitted' : 'denied' });
+    this.emitAdmissionRequests(entry);
+    this.emitAdmissionStatus(entry, userId);
+  }
+
+  onAdmissionRequests(roomId: string, callback: AdmissionRequestsCallback): () => void {
+    const entry = this.getOrCreateEntry(roomId);
+    entry.admissionListeners.add(callback);
+    queueMicrotask(() => {
+      if (entry.admissionListeners.has(callback)) {
+        callback(this.pendingAdmissionRequests(entry));
+      }
+    });
+    return () => entry.admissionListeners.delete(callback);
+  }
+
+  onAdmissionStatus(roomId: string, userId: string, callback: AdmissionStatusCallback): () => void {
+    const entry = this.getOrCreateEntry(roomId);
+    const listener = { userId, callback };
+    entry.admissionStatusListeners.add(listener);
+    queueMicrotask(() => {
+      if (entry.admissionStatusListeners.has(listener)) {
+        callback(entry.admissionRequests.get(userId)?.status ?? null);
+      }
+    });
+    return () => entry.admissionStatusListeners.delete(listener);
+  }
+
+  async leaveRoom(roomId: string, participantId: string): Promise<void> {
+    const entry = rooms.get(roomId);
+    if (!entry) return;
+
+    entry.participants.delete(participantId);
+    this.emitParticipants(entry);
+    // Signaling we sent is useless once we are gone
+    entry.signaling = entry.signaling.filter(({ fromId }) => fromId !== participantId);
+    entry.iceCandidates = entry.iceCandidates.filter(({ fromId }) => fromId !== participantId);
+
+    if (entry.room?.raisedHands?.includes(participantId)) {
+      entry.room = { ...entry.room, raisedHands: entry.room.raisedHands.filter(id => id !== participantId) };
+      this.emitRoom(entry);
+    }
+    await this.releaseFloor(roomId, participantId);
+
+    const hasLiveParticipant = Array.from(entry.participants.values()).some(p => !isParticipantStale(p));
+    if (!hasLiveParticipant && entry.room) {
+      entry.room = { ...entry.room, isActive: false };
+      this.emitRoom(entry);
+    }
+  }
+
+  async removeParticipant(roomId: string, participantId: string): Promise<void> {
+    const entry = rooms.get(roomId);
+    entry?.members.delete(participantId);
+    entry?.removed.add(participantId);
+    await this.leaveRoom(roomId, participantId);
+  }
+
+  async updateRoom(roomId: string, updates: Partial<RoomData>): Promise<void> {
+    const entry = rooms.get(roomId);
+    if (!entry?.room) {
+      throw new Error('Room not found');
+    }
+
+    entry.room = { ...entry.room, ...updates };
+    this.emitRoom(entry);
+  }
+
+  async raiseHand(roomId: string, participantId: string): Promise<void> {
+    const entry = rooms.get(roomId);
+    if (!entry?.room) {
+      throw new Error('Room not found');
+    }
+
+    const raisedHands = entry.room.raisedHands || [];
+    if (raisedHands.includes(participantId)) return;
+    entry.room = { ...entry.room, raisedHands: [...raisedHands, participantId] };
+    this.emitRoom(entry);
+  }
+
+  async lowerHand(roomId: string, participantId: string): Promise<void> {
+    const entry = rooms.get(roomId);
+    if (!entry?.room) {
+      throw new Error('Room not found');
+    }
+
+    entry.room = { ...entry.room, raisedHands: (entry.room.raisedHands || []).filter(id => id !== participantId) };
+    this.emitRoom(entry);
+  }
+
+  async claimFloor(roomId: string, participantId: string, expiresAt: number): Promise<boolean> {
+    const entry = rooms.get(roomId);
+    if (!entry?.room) {
+      throw new Error('Room not found');
+    }
+
+    const floor = entry.room.floor;
+    if (!canClaimFloor(floor, participantId)) return false;
+    entry.room = { ...entry.room, floor: { holderId: participantId, expiresAt } };
+    this.emitRoom(entry);
+    return true;
+  }
+
+  async releaseFloor(roomId: string, participantId: string): Promise<void> {
+    const entry = rooms.get(roomId);
+    if (entry?.room?.floor?.holderId !== participantId) return;
+
+    entry.room = { ...entry.room, floor: null };
+    this.emitRoom(entry);
+  }
+
+  async heartbeat(roomId: string, participantId: string): Promise<void> {
+    await this.updateParticipant(roomId, participantId, { lastSeen: Date.now() });
+  }
+
+  async updateParticipant(roomId: string, participantId: string, updates: Partial<Participant>): Promise<void> {
+    const entry = rooms.get(roomId);
+    const participant = entry?.participants.get(participantId);
+    if (!entry || !participant) {
+      throw new Error('Participant not found');
+    }
+
+    entry.participants.set(participantId, { ...participant, ...updates });
+    this.emitParticipants(entry);
+  }
+
+  onParticipants(roomId: string, callback: ParticipantUpdateCallback): () => void {
+    const entry = this.getOrCreateEntry(roomId);
+    entry.participantListeners.add(callback);
+    queueMicrotask(() => {
+      if (entry.participantListeners.has(callback)) {
+        callback(this.sortedParticipants(entry));
+      }
+    });
+    return () => entry.participantListeners.delete(callback);
+  }
+
+  onRoom(roomId: string, callback: RoomUpdateCallback): () => void {
+    const entry = this.getOrCreateEntry(roomId);
+    entry.roomListeners.add(callback);
+    queueMicrotask(() => {
+      if (entry.roomListeners.has(callback)) {
+        callback(entry.room ? { ...entry.room } : null);
+      }
+    });
+    return () => entry.roomListeners.delete(callback);
+  }
+
+  async sendModerationCommand(roomId: string, command: Omit<ModerationCommand, 'id' | 'timestamp'>): Promise<void> {
+    const entry = this.getOrCreateEntry(roomId);
+    const issued: ModerationCommand = { ...command, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, timestamp: Date.now() };
+    queueMicrotask(() => {
+      entry.moderationListeners.forEach(callback => callback({ ...issued }));
+    });
+  }
+
+  onModerationCommands(roomId: string, callback: ModerationCommandCallback): () => void {
+    const entry = this.getOrCreateEntry(roomId);
+    entry.moderationListeners.add(callback);
+    return () => entry.moderationListeners.delete(callback);
+  }
+
+  async addAuditEntry(roomId: string, auditEntry: Omit<RoomAuditEntry, 'id' | 'timestamp'>): Promise<void> {
+    const entry = this.getOrCreateEntry(roomId);
+    entry.auditLog.push({ ...auditEntry, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, timestamp: Date.now() });
+    queueMicrotask(() => {
+      entry.auditListeners.forEach(callback => callback([...entry.auditLog]));
+    });
+  }
+
+  onAuditLog(roomId: string, callback: AuditLogCallback): () => void {
+    const entry = this.getOrCreateEntry(roomId);
+    entry.auditListeners.add(callback);
+    queueMicrotask(() => {
+      if (entry.auditListeners.has(callback)) {
+        callback([...entry.auditLog]);
+      }
+    });
+    return () => entry.auditListeners.delete(callback);
+  }
+
+  async sendOffer(roomId: string, fromId: string, toId: string, offer: RTCSessionDescriptionInit, sessions: SignalingSessions): Promise<void> {
+    this.writeSignaling(roomId, fromId, toId, { offer, ...sessions, timestamp: Date.now() });
+  }
+
+  async sendAnswer(roomId: string, fromId: string, toId: string, answer: RTCSessionDescriptionInit, sessions: SignalingSessions): Promise<void> {
+    this.writeSignaling(roomId, fromId, toId, { answer, ...sessions, timestamp: Date.now() });
+  }
+
+  async sendIceCandidate(roomId: string, fromId: string, toId: string, candidate: RTCIceCandidateInit, sessions: SignalingSessions): Promise<void> {
+    const entry = this.getOrCreateEntry(roomId);
+    const stored = {
+      candidate: candidate.candidate || '',
+      sdpMLineIndex: candidate.sdpMLineIndex ?? null,
+      sdpMid: candidate.sdpMid ?? null
+    };
+    entry.iceCandidates.push({ fromId, toId, candidate: stored, sessions });
+
+    queueMicrotask(() => {
+      entry.signalingListeners.forEach(({ userId, callback }) => {
+        if (userId === toId) {
+          callback(fromId, { iceCandidates: [stored], ...sessions, timestamp: Date.now() });
+        }
+      });
+    });
+  }
+
+  onAllSignaling(roomId: string, userId: string, callback: SignalingListener): () => void {
+    const entry = this.getOrCreateEntry(roomId);
+    const listener = { userId, callback };
+    entry.signalingListeners.add(listener);
+
+    // Deliver documents and candidates that were written before we subscribed.
+    // Taken now: anything written later reaches the listener on its own.
+    const addressed = ({ fromId, toId }: { fromId: string; toId: string }) => toId === userId && fromId !== userId;
+    const earlierSignaling = entry.signaling.filter(addressed);
+    const earlierCandidates = entry.iceCandidates.filter(addressed);
+    queueMicrotask(() => {
+      if (!entry.signalingListeners.has(listener)) return;
+
+      earlierSignaling.forEach(({ fromId, data }) => callback(fromId, data));
+      earlierCandidates.forEach(({ fromId, candidate, sessions }) => {
+        callback(fromId, { iceCandidates: [candidate], ...sessions, timestamp: Date.now() });
+      });
+    });
+
+    return () => entry.signalingListeners.delete(listener);
+  }
+
+  private getOrCreateEntry(roomId: string): MemoryRoom {
+    let entry = rooms.get(roomId);
+    if (!entry) {
+      entry = {
+        room: null,
+        members: new Set(),
+        removed: new Set(),
+        admissionRequests: new Map(),
+        participants: new Map(),
+        signaling: [],
+        iceCandidates: [],
+        participantListeners: new Set(),
+        roomListeners: new Set(),
+        moderationListeners: new Set(),
+        auditLog: [],
+        auditListeners: new Set(),
+        admissionListeners: new Set(),
+        admissionStatusListeners: new Set(),
+        signalingListeners: new Set()
+      };
+      rooms.set(roomId, entry);
+    }
+    return entry;
+  }
+
+  private writeSignaling(roomId: string, fromId: string, toId: string, data: SignalingData): void {
+    const entry = this.getOrCreateEntry(roomId);
+    entry.signaling.push({ fromId, toId, data });
+
+    queueMicrotask(() => {
+      entry.signalingListeners.forEach(({ userId, callback }) => {
+        if (userId === toId) {
+          callback(fromId, data);
+        }
+      });
+    });
+  }
+
+  private sortedParticipants(entry: MemoryRoom): Participant[] {
+    return Array.from(entry.participants.values())
+      .sort((a, b) => (a.joinedAt || 0) - (b.joinedAt || 0))
+      .map(participant => ({ ...participant }));
+  }
+
+  private emitParticipants(entry: MemoryRoom): void {
+    const participants = this.sortedParticipants(entry);
+    queueMicrotask(() => {
+      entry.participantListeners.forEach(callback => callback(participants));
+    });
+  }
+
+  private pendingAdmissionRequests(entry: MemoryRoom): AdmissionRequest[] {
+    return Array.from(entry.admissionRequests.values())
+      .filter(request => request.status === 'pending')
+      .sort((a, b) => a.requestedAt - b.requestedAt)
+      .map(request => ({ ...request }));
+  }
+
+  private emitAdmissionRequests(entry: MemoryRoom): void {
+    const requests = this.pendingAdmissionRequests(entry);
+    queueMicrotask(() => {
+      entry.admissionListeners.forEach(callback => callback(requests));
+    });
+  }
+
+  private emitAdmissionStatus(entry: MemoryRoom, userId: string): void {
+    const status = entry.admissionRequests.get(userId)?.status ?? null;
+    queueMicrotask(() => {
+      entry.admissionStatusListeners.forEach(listener => {
+        if (listener.userId === userId) {
+          listener.callback(status);
+        }
+      });
+    });
+  }
+
+  private emitRoom(entry: MemoryRoom): void {
+    const room = entry.room ? { ...entry.room } : null;
+    queueMicrotask(() => {
+      entry.roomListeners.forEach(callback => callback(room));
+    });
+  }
+}
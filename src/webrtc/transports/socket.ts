@@ -0,0 +1,290 @@
+/**
+ * Socket.io Signaling Transport
+ * Relays rooms, participants and offer/answer/ICE through a socket.io server.
+ *
+ * Client → server events (all acknowledged with `{ ok, error?, room? }`):
+ *   create-room, join-room, leave-room, update-participant, heartbeat, relay-signal
+ * create-room and join-room carry an optional pinHash; join-room fails with
+ * error 'pin-required', 'incorrect-pin', 'locked', 'denied' or 'removed' (see
+ * RoomAccessReason) and answers `{ ok, room, admission }`.
+ * Admission requests: update-admission-request, delete-admission-request
+ * Raised hands: raise-hand, lower-hand (participants for themselves; the host
+ * may lower anyone's). leave-room also lowers the leaver's hand.
+ * Push-to-talk floor: claim-floor { roomId, participantId, expiresAt } answers
+ * `{ ok, granted }` and must be decided atomically by the server;
+ * release-floor frees it if the participant holds it. leave-room also
+ * releases the leaver's floor.
+ * Host-only events, rejected by the server for anyone but room.hostId:
+ *   remove-participant, update-room, moderate, resolve-admission-request, add-audit-entry
+ * update-room also accepts a { hostId, coHostId } claim from the successor
+ * once the host's participant record is gone.
+ * The server stamps joinedAt/lastSeen (epoch millis) on participants it stores.
+ * Subscription events (re-sent after every reconnect, each with an un- twin):
+ *   subscribe-participants, subscribe-room, subscribe-signaling, subscribe-moderation,
+ *   subscribe-admission-requests, subscribe-admission-status, subscribe-audit-log
+ * Server → client events:
+ *   participants (roomId, participants), room (roomId, room | null),
+ *   moderation (roomId, command),
+ *   admission-requests (roomId, requests), admission-status (roomId, userId, status | null),
+ *   audit-log (roomId, entries),
+ *   signal ({ roomId, fromId, toId, data })
+ */
+
+import type { Socket } from 'socket.io-client';
+import { socketService } from '../../services/socketService';
+import { SIGNALING_CONFIG } from '../config';
+import type {
+  RoomData,
+  Participant,
+  SignalingData,
+  SignalingSessions,
+  ParticipantUpdateCallback,
+  RoomUpdateCallback,
+  ModerationCommand,
+  ModerationCommandCallback,
+  AdmissionRequest,
+  JoinRoomResult,
+  AdmissionRequestsCallback,
+  AdmissionStatusCallback,
+  RoomAuditEntry,
+  AuditLogCallback
+} from '../signaling';
+import { RoomAccessError, isRoomAccessReason, type SignalingTransport, type SignalingListener } from './types';
+
+interface AckResponse {
+  ok: boolean;
+  error?: string;
+  room?: RoomData;
+  admission?: JoinRoomResult['admission'];
+  granted?: boolean;
+}
+
+interface RelayedSignal {
+  roomId: string;
+  fromId: string;
+  toId: string;
+  data: SignalingData;
+}
+
+// Server → client events and their arguments
+interface ServerEvents {
+  participants: (roomId: string, participants: Participant[]) => void;
+  room: (roomId: string, room: RoomData | null) => void;
+  moderation: (roomId: string, command: ModerationCommand) => void;
+  'admission-requests': (roomId: string, requests: AdmissionRequest[]) => void;
+  'admission-status': (roomId: string, userId: string, status: AdmissionRequest['status'] | null) => void;
+  'audit-log': (roomId: string, entries: RoomAuditEntry[]) => void;
+  signal: (signal: RelayedSignal) => void;
+}
+
+export class SocketTransport implements SignalingTransport {
+  async createRoom(room: RoomData, host: Participant, pinHash?: string): Promise<void> {
+    await this.request('create-room', { room, host, pinHash });
+  }
+
+  async joinRoom(roomId: string, participant: Participant, pinHash?: string): Promise<JoinRoomResult> {
+    let response: AckResponse;
+    try {
+      response = await this.request('join-room', { roomId, participant, pinHash });
+    } catch (error) {
+      const message = (error as Error).message;
+      if (isRoomAccessReason(message)) throw new RoomAccessError(message);
+      throw error;
+    }
+    if (!response.room) {
+      throw new Error('Room not found');
+    }
+    return { room: { ...response.room, id: roomId }, admission: response.admission || 'admitted' };
+  }
+
+  async updateAdmissionRequest(roomId: string, userId: string, name: string): Promise<void> {
+    await this.request('update-admission-request', { roomId, userId, name });
+  }
+
+  async deleteAdmissionRequest(roomId: string, userId: string): Promise<void> {
+    await this.request('delete-admission-request', { roomId, userId });
+  }
+
+  async resolveAdmissionRequest(roomId: string, userId: string, admit: boolean): Promise<void> {
+    await this.request('resolve-admission-request', { roomId, userId, admit });
+  }
+
+  onAdmissionRequests(roomId: string, callback: AdmissionRequestsCallback): () => void {
+    const handler = (eventRoomId: string, requests: AdmissionRequest[]) => {
+      if (eventRoomId === roomId) {
+        callback(requests);
+      }
+    };
+    return this.subscribe('admission-requests', handler, 'subscribe-admission-requests', { roomId });
+  }
+
+  onAdmissionStatus(roomId: string, userId: string, callback: AdmissionStatusCallback): () => void {
+    const handler = (eventRoomId: string, eventUserId: string, status: AdmissionRequest['status'] | null) => {
+      if (eventRoomId === roomId && eventUserId === userId) {
+        callback(status);
+      }
+    };
+    return this.subscribe('admission-status', handler, 'subscribe-admission-status', { roomId, userId });
+  }
+
+  async leaveRoom(roomId: string, participantId: string): Promise<void> {
+    await this.request('leave-room', { roomId, participantId });
+  }
+
+  async removeParticipant(roomId: string, participantId: string): Promise<void> {
+    await this.request('remove-participant', { roomId, participantId });
+  }
+
+  async updateRoom(roomId: string, updates: Partial<RoomData>): Promise<void> {
+    await this.request('update-room', { roomId, updates });
+  }
+
+  async raiseHand(roomId: string, participantId: string): Promise<void> {
+    await this.request('raise-hand', { roomId, participantId });
+  }
+
+  async lowerHand(roomId: string, participantId: string): Promise<void> {
+    await this.request('lower-hand', { roomId, participantId });
+  }
+
+  async claimFloor(roomId: string, participantId: string, expiresAt: number): Promise<boolean> {
+    const response = await this.request('claim-floor', { roomId, participantId, expiresAt });
+    return !!response.granted;
+  }
+
+  async releaseFloor(roomId: string, participantId: string): Promise<void> {
+    await this.request('release-floor', { roomId, participantId });
+  }
+
+  async heartbeat(roomId: string, participantId: string): Promise<void> {
+    await this.request('heartbeat', { roomId, participantId });
+  }
+
+  async updateParticipant(roomId: string, participantId: string, updates: Partial<Participant>): Promise<void> {
+    await this.request('update-participant', { roomId, participantId, updates });
+  }
+
+  onParticipants(roomId: string, callback: ParticipantUpdateCallback): () => void {
+    const handler = (eventRoomId: string, participants: Participant[]) => {
+      if (eventRoomId === roomId) {
+        callback(participants);
+      }
+    };
+    return this.subscribe('participants', handler, 'subscribe-participants', { roomId });
+  }
+
+  onRoom(roomId: string, callback: RoomUpdateCallback): () => void {
+    const handler = (eventRoomId: string, room: RoomData | null) => {
+      if (eventRoomId === roomId) {
+        callback(room ? { ...room, id: roomId } : null);
+      }
+    };
+    return this.subscribe('room', handler, 'subscribe-room', { roomId });
+  }
+
+  async sendModerationCommand(roomId: string, command: Omit<ModerationCommand, 'id' | 'timestamp'>): Promise<void> {
+    await this.request('moderate', { roomId, command });
+  }
+
+  onModerationCommands(roomId: string, callback: ModerationCommandCallback): () => void {
+    const handler = (eventRoomId: string, command: ModerationCommand) => {
+      if (eventRoomId === roomId) {
+        callback(command);
+      }
+    };
+    return this.subscribe('moderation', handler, 'subscribe-moderation', { roomId });
+  }
+
+  async addAuditEntry(roomId: string, entry: Omit<RoomAuditEntry, 'id' | 'timestamp'>): Promise<void> {
+    await this.request('add-audit-entry', { roomId, entry });
+  }
+
+  onAuditLog(roomId: string, callback: AuditLogCallback): () => void {
+    const handler = (eventRoomId: string, entries: RoomAuditEntry[]) => {
+      if (eventRoomId === roomId) {
+        callback(entries);
+      }
+    };
+    return this.subscribe('audit-log', handler, 'subscribe-audit-log', { roomId });
+  }
+
+  async sendOffer(roomId: string, fromId: string, toId: string, offer: RTCSessionDescriptionInit, sessions: SignalingSessions): Promise<void> {
+    await this.relay(roomId, fromId, toId, { offer, ...sessions, timestamp: Date.now() });
+  }
+
+  async sendAnswer(roomId: string, fromId: string, toId: string, answer: RTCSessionDescriptionInit, sessions: SignalingSessions): Promise<void> {
+    await this.relay(roomId, fromId, toId, { answer, ...sessions, timestamp: Date.now() });
+  }
+
+  async sendIceCandidate(roomId: string, fromId: string, toId: string, candidate: RTCIceCandidateInit, sessions: SignalingSessions): Promise<void> {
+    await this.relay(roomId, fromId, toId, {
+      iceCandidates: [{
+        candidate: candidate.candidate || '',
+        sdpMLineIndex: candidate.sdpMLineIndex ?? null,
+        sdpMid: candidate.sdpMid ?? null
+      }],
+      ...sessions,
+      timestamp: Date.now()
+    });
+  }
+
+  onAllSignaling(roomId: string, userId: string, callback: SignalingListener): () => void {
+    const handler = (signal: RelayedSignal) => {
+      if (signal.roomId === roomId && signal.toId === userId && signal.fromId !== userId) {
+        callback(signal.fromId, signal.data);
+      }
+    };
+    return this.subscribe('signal', handler, 'subscribe-signaling', { roomId, userId });
+  }
+
+  private relay(roomId: string, fromId: string, toId: string, data: SignalingData): Promise<AckResponse> {
+    return this.request('relay-signal', { roomId, fromId, toId, data });
+  }
+
+  /**
+   * Get the shared socket, connecting on first use
+   */
+  private getSocket(): Socket {
+    return socketService.getSocket() || socketService.connect();
+  }
+
+  /**
+   * Emit an event and wait for the server acknowledgement
+   */
+  private request(event: string, payload: unknown): Promise<AckResponse> {
+    const socket = this.getSocket();
+    return new Promise((resolve, reject) => {
+      socket.timeout(SIGNALING_CONFIG.requestTimeout).emit(event, payload, (error: Error | null, response: AckResponse) => {
+        if (error) {
+          reject(new Error(`Signaling server did not acknowledge ${event}`));
+        } else if (!response?.ok) {
+          reject(new Error(response?.error || `Signaling request ${event} failed`));
+        } else {
+          resolve(response);
+        }
+      });
+    });
+  }
+
+  /**
+   * Listen for a server event and (re)register the subscription on every connect
+   */
+  private subscribe<E extends keyof ServerEvents>(event: E, handler: ServerEvents[E], subscribeEvent: string, payload: object): () => void {
+    const socket = this.getSocket();
+    // The shared socket is untyped; ServerEvents types the handlers at each call site
+    const name: string = event;
+    const register = () => socket.emit(subscribeEvent, payload);
+
+    socket.on(name, handler);
+    socket.on('connect', register);
+    if (socket.connected) {
+      register();
+    }
+
+    return () => {
+      socket.off(name, handler);
+      socket.off('connect', register);
+      socket.emit(`un${subscribeEvent}`, payload);
+    };
+  }
+}
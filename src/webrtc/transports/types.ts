@@ -0,0 +1,193 @@
+/**
+ * Signaling Transport Contract
+ * Storage and messaging backend used by SignalingService for rooms,
+ * participants and offer/answer/ICE exchange
+ */
+
+import type {
+  RoomData,
+  Participant,
+  SignalingData,
+  SignalingSessions,
+  ParticipantUpdateCallback,
+  RoomUpdateCallback,
+  ModerationCommand,
+  ModerationCommandCallback,
+  JoinRoomResult,
+  AdmissionRequestsCallback,
+  AdmissionStatusCallback,
+  RoomAuditEntry,
+  AuditLogCallback
+} from '../signaling';
+
+export type SignalingTransportType = 'firestore' | 'socket' | 'memory';
+
+export type SignalingListener = (fromId: string, data: SignalingData) => void;
+
+const ROOM_ACCESS_MESSAGES = {
+  'pin-required': 'PIN required',
+  'incorrect-pin': 'Incorrect PIN',
+  'locked': 'Room is locked',
+  'denied': 'The host declined your request to join',
+  'removed': 'The host removed you from this room'
+};
+
+export type RoomAccessReason = keyof typeof ROOM_ACCESS_MESSAGES;
+
+export function isRoomAccessReason(value: string): value is RoomAccessReason {
+  return value in ROOM_ACCESS_MESSAGES;
+}
+
+/**
+ * The one error joinRoom throws when a new participant may not enter the
+ * room; reason says why (PIN missing or wrong, room locked, request denied,
+ * removed by the host).
+ * New access checks add a reason here rather than a new error class.
+ */
+export class RoomAccessError extends Error {
+  constructor(public reason: RoomAccessReason) {
+    super(ROOM_ACCESS_MESSAGES[reason]);
+    this.name = 'RoomAccessError';
+  }
+}
+
+export interface SignalingTransport {
+  /**
+   * Persist a new room together with its host participant.
+   * pinHash is kept out of the readable room data.
+   */
+  createRoom(room: RoomData, host: Participant, pinHash?: string): Promise<void>;
+
+  /**
+   * Look up a room and add the participant if they are not already in it.
+   * Rejects with "Room not found" when the room does not exist, and with a
+   * RoomAccessError when the room is locked, PIN-protected and pinHash
+   * does not match, the host denied the admission request, or the host
+   * removed the participant. Access is checked before any participant
+   * record is written.
+   * In rooms with a waiting room, non-members get an admission request
+   * instead and the result is 'pending'.
+   */
+  joinRoom(roomId: string, participant: Participant, pinHash?: string): Promise<JoinRoomResult>;
+
+  /**
+   * Rename a pending admission request
+   */
+  updateAdmissionRequest(roomId: string, userId: string, name: string): Promise<void>;
+
+  /**
+   * Withdraw a pending admission request. Decided requests stay on record,
+   * so a denied user cannot ask again.
+   */
+  deleteAdmissionRequest(roomId: string, userId: string): Promise<void>;
+
+  /**
+   * Admit a waiting user as a member, or deny them (host only)
+   */
+  resolveAdmissionRequest(roomId: string, userId: string, admit: boolean): Promise<void>;
+
+  /**
+   * Stream pending admission requests, oldest first (host only)
+   */
+  onAdmissionRequests(roomId: string, callback: AdmissionRequestsCallback): () => void;
+
+  /**
+   * Stream the status of one user's admission request (null once it is gone)
+   */
+  onAdmissionStatus(roomId: string, userId: string, callback: AdmissionStatusCallback): () => void;
+
+  /**
+   * Remove a participant, lower their hand, and deactivate the room once no
+   * live participant is left
+   */
+  leaveRoom(roomId: string, participantId: string): Promise<void>;
+
+  /**
+   * Remove a participant on the host's behalf: their membership is revoked
+   * and a removal marker keeps them from joining again (RoomAccessError
+   * 'removed'), waiting room included
+   */
+  removeParticipant(roomId: string, participantId: string): Promise<void>;
+
+  /**
+   * Apply a partial update to the room document (host only)
+   */
+  updateRoom(roomId: string, updates: Partial<RoomData>): Promise<void>;
+
+  /**
+   * Add a participant to the end of the room's raised-hands queue (no-op if already in it)
+   */
+  raiseHand(roomId: string, participantId: string): Promise<void>;
+
+  /**
+   * Take a participant out of the raised-hands queue (themselves, or anyone for the host)
+   */
+  lowerHand(roomId: string, participantId: string): Promise<void>;
+
+  /**
+   * Give a participant the push-to-talk floor until expiresAt, unless someone
+   * else holds an unexpired grant; resolves whether they hold it afterwards.
+   * Must be atomic so two participants keying up at once cannot both win.
+   */
+  claimFloor(roomId: string, participantId: string, expiresAt: number): Promise<boolean>;
+
+  /**
+   * Free the push-to-talk floor if the participant holds it
+   */
+  releaseFloor(roomId: string, participantId: string): Promise<void>;
+
+  /**
+   * Stamp the participant's lastSeen with the backend's clock
+   */
+  heartbeat(roomId: string, participantId: string): Promise<void>;
+
+  /**
+   * Apply a partial update to a participant
+   */
+  updateParticipant(roomId: string, participantId: string, updates: Partial<Participant>): Promise<void>;
+
+  /**
+   * Stream the participant list, ordered by join time
+   */
+  onParticipants(roomId: string, callback: ParticipantUpdateCallback): () => void;
+
+  /**
+   * Stream the room document (null once it no longer exists)
+   */
+  onRoom(roomId: string, callback: RoomUpdateCallback): () => void;
+
+  /**
+   * Publish a host moderation command to the room
+   */
+  sendModerationCommand(roomId: string, command: Omit<ModerationCommand, 'id' | 'timestamp'>): Promise<void>;
+
+  /**
+   * Stream moderation commands issued after subscribing (earlier ones are never replayed)
+   */
+  onModerationCommands(roomId: string, callback: ModerationCommandCallback): () => void;
+
+  /**
+   * Append an entry to the room's audit log (host only)
+   */
+  addAuditEntry(roomId: string, entry: Omit<RoomAuditEntry, 'id' | 'timestamp'>): Promise<void>;
+
+  /**
+   * Stream the whole audit log, oldest entry first
+   */
+  onAuditLog(roomId: string, callback: AuditLogCallback): () => void;
+
+  /**
+   * Offers and answers are delivered one by one, in the order they were sent
+   */
+  sendOffer(roomId: string, fromId: string, toId: string, offer: RTCSessionDescriptionInit, sessions: SignalingSessions): Promise<void>;
+  sendAnswer(roomId: string, fromId: string, toId: string, answer: RTCSessionDescriptionInit, sessions: SignalingSessions): Promise<void>;
+  sendIceCandidate(roomId: string, fromId: string, toId: string, candidate: RTCIceCandidateInit, sessions: SignalingSessions): Promise<void>;
+
+  /**
+   * Listen for every offer, answer and ICE candidate addressed to a user.
+   * Each ICE candidate is delivered once, in its own SignalingData. Messages
+   * written before the subscription are delivered too, with their sessions,
+   * for SignalingService to sort out.
+   */
+  onAllSignaling(roomId: string, userId: string, callback: SignalingListener): () => void;
+}
@@ -0,0 +1,173 @@
+/**
+ * Voice Activity Detection
+ * Decides who is speaking: the local microphone through an AnalyserNode,
+ * remote participants through the audioLevel their connections report.
+ * Both go through the same hysteresis and attack/release debounce, so the
+ * speaking state only flips on real changes.
+ */
+
+import { VAD_CONFIG } from './config';
+
+export type SpeakingChangeCallback = (isSpeaking: boolean) => void;
+export type RemoteSpeakingCallback = (speakingIds: Set<string>) => void;
+
+/**
+ * Hysteresis and debounce over a stream of level readings
+ */
+class SpeakingGate {
+  private speaking = false;
+  // When the level first crossed the threshold towards the other state
+  private crossedAt: number | null = null;
+
+  constructor(private startThreshold: number, private stopThreshold: number) {}
+
+  /**
+   * Feed one reading; returns the (possibly unchanged) speaking state
+   */
+  update(level: number, now: number): boolean {
+    const crossing = this.speaking ? level < this.stopThreshold : level > this.startThreshold;
+    if (!crossing) {
+      this.crossedAt = null;
+      return this.speaking;
+    }
+
+    this.crossedAt ??= now;
+    const hold = this.speaking ? VAD_CONFIG.releaseTime : VAD_CONFIG.attackTime;
+    if (now - this.crossedAt >= hold) {
+      this.speaking = !this.speaking;
+      this.crossedAt = null;
+    }
+    return this.speaking;
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+}
+
+/**
+ * Detects speech on a local microphone stream
+ */
+export class VoiceActivityDetector {
+  private context?: AudioContext;
+  private source?: MediaStreamAudioSourceNode;
+  private interval?: ReturnType<typeof setInterval>;
+
+  /**
+   * Start listening to a stream; onChange fires only when the speaking state flips
+   */
+  start(stream: MediaStream, onChange: SpeakingChangeCallback): void {
+    this.stop();
+
+    this.context = new AudioContext();
+    this.context.resume().catch(() => {
+      // Starts measuring on the next user interaction
+    });
+    this.source = this.context.createMediaStreamSource(stream);
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 512;
+    // Analysed only, never connected to the speakers
+    this.source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    const gate = new SpeakingGate(VAD_CONFIG.startThreshold, VAD_CONFIG.stopThreshold);
+
+    // setInterval rather than requestAnimationFrame so it keeps running in background tabs
+    this.interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const wasSpeaking = gate.isSpeaking();
+      if (gate.update(this.toDecibels(samples), Date.now()) !== wasSpeaking) {
+        onChange(!wasSpeaking);
+      }
+    }, VAD_CONFIG.pollInterval);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+    this.source?.disconnect();
+    this.source = undefined;
+    this.context?.close().catch(() => {
+      // Already closed
+    });
+    this.context = undefined;
+  }
+
+  /**
+   * RMS level of a block of samples in dBFS
+   */
+  private toDecibels(samples: Float32Array): number {
+    let sum = 0;
+    for (const sample of samples) {
+      sum += sample * sample;
+    }
+    const rms = Math.sqrt(sum / samples.length);
+    return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+  }
+}
+
+/**
+ * Tracks which remote participants are speaking from polled audio levels.
+ * Read-only: nothing is written to signaling.
+ */
+export class RemoteSpeakingMonitor {
+  private gates: Map<string, SpeakingGate> = new Map();
+  private interval?: ReturnType<typeof setInterval>;
+  private polling = false;
+
+  /**
+   * Poll getLevels (participant ID → audioLevel 0..1); onChange fires with the
+   * set of speaking participants whenever it changes
+   */
+  start(getLevels: () => Promise<Map<string, number>>, onChange: RemoteSpeakingCallback): void {
+    this.stop();
+
+    let lastSpeaking = '';
+    this.interval = setInterval(async () => {
+      // getStats can outlast the interval on a busy main thread
+      if (this.polling) return;
+      this.polling = true;
+
+      try {
+        const levels = await getLevels();
+        const now = Date.now();
+
+        // Forget participants whose connection went away
+        this.gates.forEach((_, participantId) => {
+          if (!levels.has(participantId)) this.gates.delete(participantId);
+        });
+
+        const speaking = new Set<string>();
+        levels.forEach((level, participantId) => {
+          let gate = this.gates.get(participantId);
+          if (!gate) {
+            gate = new SpeakingGate(VAD_CONFIG.remoteStartLevel, VAD_CONFIG.remoteStopLevel);
+            this.gates.set(participantId, gate);
+          }
+          if (gate.update(level, now)) speaking.add(participantId);
+        });
+
+        const key = Array.from(speaking).sort().join(',');
+        if (key !== lastSpeaking) {
+          lastSpeaking = key;
+          onChange(speaking);
+        }
+      } catch (error) {
+        // Try again on the next poll
+      } finally {
+        this.polling = false;
+      }
+    }, VAD_CONFIG.pollInterval);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+    this.gates.clear();
+    this.polling = false;
+  }
+}